@@ -0,0 +1,573 @@
+/*
+MixEn background service worker (MV3)
+- Owns the dictionary for every tab and frame: loads data/index.json and the chunk groups a page
+  needs, keeps them parsed in memory, and segments text for content scripts (src/dictmsg.ts).
+- Parsed groups are also kept in IndexedDB, keyed by the chunk checksum from data/manifest.json,
+  so a restarted worker doesn't fetch and parse them again.
+- Binary trie chunks (build_dict.js --format bin) are kept as ArrayBuffers and walked in place
+  (trie.ts); JSON chunks are merged into a Map.
+- The user dictionary (chrome.storage.local) is merged over chunk entries here.
+- Keyboard commands (manifest "commands") and the context menu are forwarded to the tab's content
+  scripts as MixEnCmd messages, the same ones the popup sends.
+- Reverse mode: the English headword index (data/en/{letter}.json) is loaded per first letter the
+  same way, and English text is segmented against it.
+- One target language at a time (core.ts TargetLang): requests name the dataset they want, and a
+  different one than loaded drops everything and starts over from data/{lang}/index.json.
+- English segmentations carry the irregular plurals of their entries (data/plurals.json) for the
+  content script's agreement pass (core.ts agreeNoun).
+- Writes the vocabulary notebook (notebook.ts) for every tab, one change at a time.
+*/
+import { DEFAULT_FREQ_TOTAL, Dict, DictEntry, Plurals, ReverseEntry, Script, TargetLang, groupIdForChar, lemmaNoun, nounHead, reverseDictEntry, reverseGroupId, segmentChinese, segmentEnglish, targetDataDir } from './core';
+import { DICT_MSG_SOURCE, DictRequest, DictStats, LookupResponse, SegmentResponse, encodeSegments } from './dictmsg';
+import { EMPTY_DAY, NOTEBOOK_DAYS_KEY, NOTEBOOK_DAY_PREFIX, NOTEBOOK_MAX_ENCOUNTERS, NOTEBOOK_MSG_SOURCE, NotebookDays, NotebookRequest, dayKey } from './notebook';
+import { RATIO_MAX, RATIO_MIN, SETTINGS_VERSION, readSettings, storedSettings } from './settings';
+import { TrieChunk, groupedPrefixIndex, loadTrie, trieLookup } from './trie';
+import { USER_DICT_KEY, UserDict, userDictEntry } from './userdict';
+
+const DEBUG = false;
+const log = (...args:any[]) => { if (DEBUG) console.log('[MixEn bg]', ...args); };
+
+const DICT = new Map<string, DictEntry>(); // JSON chunk and user entries
+const TRIES = new Map<string, TrieChunk>(); // gid -> binary chunk
+const PREFIX = groupedPrefixIndex(TRIES);
+let MAX_WORD_LEN = 1;
+let indexMeta: IndexMeta | null = null;
+let checksums: Record<string, string> = {}; // gid -> chunk sha256 from the build manifest
+const loadedGroups = new Set<string>();
+const loadingGroups = new Map<string, Promise<void>>();
+let ready: Promise<void> | null = null;
+const REVERSE = new Map<string, ReverseEntry>(); // english headword -> Chinese words
+let nounExc: Record<string, string> = {}; // irregular plural -> singular
+let plurals: Plurals = {}; // singular -> irregular plural (English dataset, data/plurals.json)
+let target: TargetLang = 'en'; // requested by the latest message
+// The dataset dataDir, indexMeta and the maps above hold; lags `target` while useTarget switches
+let dataTarget: TargetLang = target;
+let dataDir = targetDataDir(target);
+
+// data/index.json as build_dict.js writes it
+interface IndexMeta {
+  groupSize: number;
+  freqTotal?: number; // sum of entry frequencies; older builds have none
+  format?: 'json' | 'bin';
+  target?: TargetLang;
+  groups: Record<string, { file: string, count: number, maxLen: number }>; // gid -> chunk file
+  reverse?: { groups: Record<string, ReverseMeta>, exc?: string }; // English: letter -> en/{letter}.json
+  plurals?: string; // English: plurals.json
+}
+interface ReverseMeta { file: string, count: number }
+// A JSON chunk file: {maxLen, entries: [[word, entry], ...]}
+interface JsonChunk { maxLen?: number, entries: [string, DictEntry][] }
+
+// --- IndexedDB cache of parsed chunks ---
+const DB_NAME = 'mixen';
+const DB_STORE = 'chunks';
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if(dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve)=>{
+    try{
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = ()=> req.result.createObjectStore(DB_STORE, { keyPath: 'gid' });
+      req.onsuccess = ()=> resolve(req.result);
+      req.onerror = ()=>{ log('IndexedDB unavailable', req.error); resolve(null); };
+    }catch(e){ resolve(null); }
+  });
+  return dbPromise;
+}
+
+async function cacheGet(gid: string, key: string): Promise<any> {
+  const db = await openDb();
+  if(!db) return null;
+  return new Promise((resolve)=>{
+    const req = db.transaction(DB_STORE).objectStore(DB_STORE).get(gid);
+    req.onsuccess = ()=> resolve(req.result && req.result.key === key ? req.result.chunk : null);
+    req.onerror = ()=> resolve(null);
+  });
+}
+
+async function cachePut(gid: string, key: string, chunk: unknown){
+  const db = await openDb();
+  if(!db) return;
+  const tx = db.transaction(DB_STORE, 'readwrite');
+  tx.objectStore(DB_STORE).put({ gid, key, chunk });
+}
+
+async function cacheClear(){
+  const db = await openDb();
+  if(!db) return;
+  db.transaction(DB_STORE, 'readwrite').objectStore(DB_STORE).clear();
+}
+
+// Datasets share group ids (g0 ...); other targets' cached chunks are stored under their own.
+// Loads pass the dataset they read from: `target` may already name the next one.
+function cacheId(gid: string, t: TargetLang): string {
+  return t === 'en' ? gid : `${t}/${gid}`;
+}
+
+// Checksum when the build wrote one, else extension version + file + size
+function cacheKey(gid: string, meta: IndexMeta['groups'][string]): string {
+  return checksums[gid] || `${chrome.runtime.getManifest().version}:${meta.file}:${meta.count}`;
+}
+function reverseCacheKey(meta: ReverseMeta): string {
+  return checksums[meta.file] || `${chrome.runtime.getManifest().version}:${meta.file}:${meta.count}`;
+}
+
+// --- Loading ---
+async function fetchJson(file: string){
+  const res = await fetch(chrome.runtime.getURL(file));
+  if(!res.ok) throw new Error(`${file}: ${res.status}`);
+  return res.json();
+}
+
+async function loadIndex(){
+  try{
+    const index: IndexMeta = await fetchJson(dataDir + 'index.json');
+    indexMeta = index;
+    log('Index loaded', dataTarget, 'groups=', Object.keys(index.groups||{}).length);
+  }catch(e){
+    // Fallback: no index available (dev mode). Tiny inline dict only, and only for English.
+    indexMeta = { groupSize: 512, groups: {} };
+    if(dataTarget === 'en') addChunk({ maxLen: 2, entries: DEV_ENTRIES });
+    log('Index missing for', dataTarget, '; using inline tiny dict only');
+  }
+  try{
+    const manifest = await fetchJson(dataDir + 'manifest.json');
+    for(const gid of Object.keys(manifest.groups || {})) checksums[gid] = manifest.groups[gid].sha256;
+    for(const file of Object.keys(manifest.reverse || {})) checksums['en/' + file] = manifest.reverse[file].sha256;
+  }catch{ /* older builds have no manifest */ }
+  await loadUserDict();
+}
+
+function ensureReady(): Promise<void> {
+  if(!ready) ready = loadIndex();
+  return ready;
+}
+
+// Switching waits for loads already under way, so none of them lands in the new dataset
+let switching: Promise<void> = Promise.resolve();
+function useTarget(t: TargetLang | undefined): Promise<void> {
+  if(!t || t === target) return switching;
+  target = t;
+  switching = switching.then(async ()=>{
+    if(ready) await ready;
+    await Promise.all(Array.from(loadingGroups.values()));
+    DICT.clear(); TRIES.clear(); REVERSE.clear();
+    loadedGroups.clear();
+    USER_WORDS.clear(); shadowed.clear();
+    MAX_WORD_LEN = 1;
+    indexMeta = null;
+    checksums = {};
+    nounExc = {};
+    excLoad = null;
+    plurals = {};
+    pluralsLoad = null;
+    ready = null;
+    dataTarget = t;
+    dataDir = targetDataDir(t);
+    log('Target language', t);
+  });
+  return switching;
+}
+
+function loadGroup(gid: string): Promise<void> {
+  if(loadedGroups.has(gid)) return Promise.resolve();
+  let p = loadingGroups.get(gid);
+  if(p) return p;
+  p = (async ()=>{
+    const meta = indexMeta && indexMeta.groups[gid];
+    if(!meta) return;
+    const t = dataTarget, dir = dataDir;
+    const key = cacheKey(gid, meta);
+    const binary = meta.file.endsWith('.bin');
+    try{
+      let chunk = await cacheGet(cacheId(gid, t), key);
+      if(!chunk){
+        const file = `${dir}chunks/${meta.file}`;
+        if(binary){
+          const res = await fetch(chrome.runtime.getURL(file));
+          if(!res.ok) throw new Error(`${file}: ${res.status}`);
+          chunk = await res.arrayBuffer();
+        } else {
+          chunk = await fetchJson(file);
+        }
+        cachePut(cacheId(gid, t), key, chunk);
+      }
+      if(binary) addTrie(gid, loadTrie(chunk));
+      else addChunk(chunk);
+      log('Loaded chunk', meta.file);
+    }catch(e){
+      log('Failed chunk', meta.file, e);
+    }
+  })().finally(()=>{
+    // also on failure: don't retry on every batch
+    loadedGroups.add(gid);
+    loadingGroups.delete(gid);
+  });
+  loadingGroups.set(gid, p);
+  return p;
+}
+
+// --- Reverse index (English -> Chinese) ---
+function reverseGroups(): Record<string, ReverseMeta> {
+  return (indexMeta && indexMeta.reverse && indexMeta.reverse.groups) || {};
+}
+
+function loadReverseGroup(letter: string): Promise<void> {
+  const gid = 'en:' + letter;
+  if(loadedGroups.has(gid)) return Promise.resolve();
+  let p = loadingGroups.get(gid);
+  if(p) return p;
+  p = (async ()=>{
+    const meta = reverseGroups()[letter];
+    if(!meta) return;
+    const key = reverseCacheKey(meta);
+    const dir = dataDir;
+    try{
+      let chunk = await cacheGet(gid, key);
+      if(!chunk){
+        chunk = await fetchJson(dir + meta.file);
+        cachePut(gid, key, chunk);
+      }
+      for(const [w, v] of chunk.entries) REVERSE.set(w, v);
+      log('Loaded reverse chunk', meta.file, 'entries=', chunk.entries.length);
+    }catch(e){
+      log('Failed reverse chunk', meta.file, e);
+    }
+  })().finally(()=>{
+    loadedGroups.add(gid);
+    loadingGroups.delete(gid);
+  });
+  loadingGroups.set(gid, p);
+  return p;
+}
+
+let excLoad: Promise<void> | null = null;
+function loadNounExc(): Promise<void> {
+  if(!excLoad){
+    const file = indexMeta && indexMeta.reverse && indexMeta.reverse.exc;
+    excLoad = !file ? Promise.resolve() : fetchJson(dataDir + file).then((t)=>{ nounExc = t || {}; }, (e)=> log('Failed noun.exc', e));
+  }
+  return excLoad;
+}
+
+let pluralsLoad: Promise<void> | null = null;
+function loadPlurals(): Promise<void> {
+  if(!pluralsLoad){
+    const file = indexMeta && indexMeta.plurals;
+    pluralsLoad = !file ? Promise.resolve() : fetchJson(dataDir + file).then((t)=>{ plurals = t || {}; }, (e)=> log('Failed plurals', e));
+  }
+  return pluralsLoad;
+}
+
+// The irregular plurals a batch of entries can need, sent along with them
+function pluralsFor(entries: Record<string, DictEntry>): Plurals {
+  const out: Plurals = {};
+  for(const w of Object.keys(entries)){
+    for(const sense of entries[w].en || []){
+      const head = nounHead(sense);
+      if(Object.prototype.hasOwnProperty.call(plurals, head)) out[head] = plurals[head];
+    }
+  }
+  return out;
+}
+
+const EN_WORDS = /[A-Za-z]+/g;
+async function ensureReverseFor(texts: string[]){
+  await ensureReady();
+  await loadNounExc();
+  const letters = new Set<string>();
+  for(const text of texts){
+    for(const w of text.match(EN_WORDS) || []){
+      // The lemma of an irregular plural may start with another letter
+      for(const form of [w, lemmaNoun(w, nounExc)]){
+        const letter = reverseGroupId(form);
+        if(letter && !loadedGroups.has('en:' + letter)) letters.add(letter);
+      }
+    }
+  }
+  await Promise.all(Array.from(letters).map(loadReverseGroup));
+}
+
+// Words the plural rules would strip an 's' from ("does" -> "doe")
+const NOT_PLURAL = new Set(['does', 'goes', 'has', 'was', 'this', 'thus', 'always', 'perhaps', 'sometimes', 'whereas']);
+function reverseLookup(script: Script){
+  const cache = new Map<string, DictEntry | undefined>();
+  return (word: string): DictEntry | undefined => {
+    if(cache.has(word)) return cache.get(word);
+    let head = word, r = REVERSE.get(word);
+    if(!r && !NOT_PLURAL.has(word)){
+      // Only nouns are lemmatised
+      head = lemmaNoun(word, nounExc);
+      r = REVERSE.get(head);
+      if(r && r.pos !== 'n' && !nounExc[word]) r = undefined;
+    }
+    const entry = r ? reverseDictEntry(head, r, script) : undefined;
+    cache.set(word, entry);
+    return entry;
+  };
+}
+
+async function ensureGroupsFor(texts: string[]){
+  await ensureReady();
+  const gids = new Set<string>();
+  for(const text of texts){
+    for(const ch of text){
+      const gid = groupIdForChar(ch);
+      if(gid && !loadedGroups.has(gid)) gids.add(gid);
+    }
+  }
+  await Promise.all(Array.from(gids).map(loadGroup));
+}
+
+// --- User dictionary ---
+// User entries take priority over chunk entries: chunk entries for the same word are kept aside
+// so deleting the user entry brings them back.
+const USER_WORDS = new Set<string>();
+const shadowed = new Map<string, DictEntry>(); // word -> chunk entry hidden by a user entry
+
+function addChunk(chunk: JsonChunk){
+  if(chunk.maxLen && chunk.maxLen > MAX_WORD_LEN) MAX_WORD_LEN = chunk.maxLen;
+  for(const [w, v] of chunk.entries){
+    if(!USER_WORDS.has(w)){ DICT.set(w, v); continue; }
+    shadowed.set(w, v);
+    const u = DICT.get(w)!;
+    if((v.f || 0) > (u.f || 0)) u.f = v.f;
+  }
+}
+
+function addTrie(gid: string, trie: TrieChunk){
+  TRIES.set(gid, trie);
+  if(trie.maxLen > MAX_WORD_LEN) MAX_WORD_LEN = trie.maxLen;
+  // User words overriding a word of this group take its frequency and script link now
+  for(const w of USER_WORDS){
+    if(groupIdForChar(w[0]) === gid && trie.get(w)){ applyUserDict(userDict); break; }
+  }
+}
+
+let userDict: UserDict = {};
+function applyUserDict(user: UserDict){
+  userDict = user || {};
+  for(const w of USER_WORDS){
+    DICT.delete(w);
+    if(shadowed.has(w)){ DICT.set(w, shadowed.get(w)!); shadowed.delete(w); }
+  }
+  USER_WORDS.clear();
+  const freqTotal = (indexMeta && indexMeta.freqTotal) || DEFAULT_FREQ_TOTAL;
+  for(const w of Object.keys(user || {})){
+    const u = user[w];
+    if(!u || !Array.isArray(u.en) || !u.en.length) continue;
+    const inMap = DICT.get(w);
+    if(inMap) shadowed.set(w, inMap);
+    const base = inMap || trieLookup(TRIES, w);
+    DICT.set(w, userDictEntry(u, base, freqTotal));
+    USER_WORDS.add(w);
+    // Longer user terms must still fit the segmentation window
+    if(w.length > MAX_WORD_LEN) MAX_WORD_LEN = w.length;
+  }
+  log('User dict entries=', USER_WORDS.size);
+}
+
+function loadUserDict(): Promise<void> {
+  return new Promise((resolve)=>{
+    chrome.storage.local.get({ [USER_DICT_KEY]: {} }, (res)=>{
+      applyUserDict(res[USER_DICT_KEY]);
+      resolve();
+    });
+  });
+}
+
+chrome.storage.onChanged.addListener((changes, area)=>{
+  if(area !== 'local' || !changes[USER_DICT_KEY]) return;
+  // Before the index is loaded, loadIndex() reads the new value itself
+  if(ready) ready = ready.then(()=> applyUserDict(changes[USER_DICT_KEY].newValue || {}));
+});
+
+// --- Requests ---
+function dictView(): Dict {
+  const view: Dict = { entries: DICT, maxLen: MAX_WORD_LEN, freqTotal: (indexMeta && indexMeta.freqTotal) || 0 };
+  if(TRIES.size) view.prefix = PREFIX;
+  return view;
+}
+
+function statsSnapshot(): DictStats {
+  let size = DICT.size;
+  for(const t of TRIES.values()) size += t.count;
+  return { target, dictSize: size, groupsLoaded: Array.from(loadedGroups), freqTotal: dictView().freqTotal };
+}
+
+async function handle(msg: DictRequest): Promise<SegmentResponse | LookupResponse | DictStats> {
+  switch(msg.op){
+    case 'segment': {
+      await useTarget(msg.target);
+      await ensureGroupsFor(msg.texts);
+      await loadPlurals();
+      const entries: Record<string, DictEntry> = {};
+      const view = dictView();
+      const words = msg.texts.map(text => encodeSegments(segmentChinese(text, view, msg.script), entries));
+      const res: SegmentResponse = { ...statsSnapshot(), words, entries };
+      if(target === 'en') res.plurals = pluralsFor(entries);
+      return res;
+    }
+    case 'segmentEn': {
+      await useTarget('en'); // the English headword index is part of the English dataset
+      await ensureReverseFor(msg.texts);
+      const entries: Record<string, DictEntry> = {};
+      const lookup = reverseLookup(msg.script);
+      const words = msg.texts.map(text => encodeSegments(segmentEnglish(text, lookup), entries));
+      return { ...statsSnapshot(), words, entries };
+    }
+    case 'lookup': {
+      await useTarget(msg.target);
+      await ensureGroupsFor(msg.words);
+      const entries: Record<string, DictEntry> = {};
+      for(const w of msg.words){ const e = DICT.get(w) || trieLookup(TRIES, w); if(e) entries[w] = e; }
+      return { ...statsSnapshot(), entries };
+    }
+    case 'stats':
+      await useTarget(msg.target);
+      await ensureReady();
+      return statsSnapshot();
+  }
+}
+
+chrome.runtime.onMessage.addListener((msg, _sender, sendResponse)=>{
+  if(!msg || msg.source !== DICT_MSG_SOURCE) return;
+  handle(msg).then(sendResponse, (err)=> sendResponse({ error: String(err) }));
+  return true; // async response
+});
+
+// --- Vocabulary notebook ---
+// Changes are chained so concurrent messages from several tabs read each other's writes
+let notebookQueue: Promise<void> = Promise.resolve();
+
+function storageGet(keys: any): Promise<any> {
+  return new Promise((resolve)=> chrome.storage.local.get(keys, resolve));
+}
+function storageSet(items: any): Promise<void> {
+  return new Promise((resolve)=> chrome.storage.local.set(items, ()=> resolve()));
+}
+
+async function notebookApply(msg: NotebookRequest){
+  const ts = msg.op === 'encounter' ? msg.encounter.ts : Date.now();
+  const day = dayKey(ts);
+  const dayItem = NOTEBOOK_DAY_PREFIX + day;
+  const res = await storageGet({ [NOTEBOOK_DAYS_KEY]: {}, [dayItem]: [] });
+  const days: NotebookDays = res[NOTEBOOK_DAYS_KEY];
+  const counts = days[day] = Object.assign({}, EMPTY_DAY, days[day]);
+  const out: any = { [NOTEBOOK_DAYS_KEY]: days };
+  if(msg.op === 'encounter'){
+    counts.encounters++;
+    out[dayItem] = res[dayItem].concat([msg.encounter]);
+  } else {
+    counts[msg.field] += msg.n || 1;
+  }
+  await storageSet(out);
+  if(msg.op === 'encounter') await notebookPrune(days);
+}
+
+// Drop the oldest days' encounters once there are too many; their counts stay for the charts
+async function notebookPrune(days: NotebookDays){
+  const list = Object.keys(days).sort();
+  let total = list.reduce((n, d)=> n + days[d].encounters, 0);
+  const drop: string[] = [];
+  for(const d of list){
+    if(total <= NOTEBOOK_MAX_ENCOUNTERS) break;
+    total -= days[d].encounters;
+    drop.push(NOTEBOOK_DAY_PREFIX + d);
+  }
+  if(drop.length) await new Promise<void>((resolve)=> chrome.storage.local.remove(drop, ()=> resolve()));
+}
+
+chrome.runtime.onMessage.addListener((msg, _sender, sendResponse)=>{
+  if(!msg || msg.source !== NOTEBOOK_MSG_SOURCE) return;
+  notebookQueue = notebookQueue.then(()=> notebookApply(msg)).catch((err)=> log('Notebook write failed', err));
+  sendResponse({ ok: true });
+});
+
+// --- Keyboard commands and context menu ---
+const RATIO_STEP = 0.05;
+
+// Without frameId the message goes to every frame of the tab; the first answer wins
+function tabCommand(tabId: number, cmd: string, arg?: any, frameId?: number): Promise<any> {
+  return new Promise((resolve)=>{
+    const msg = { source: 'MixEnCmd', cmd, arg };
+    const done = (res: any)=>{ void chrome.runtime.lastError; resolve(res || null); };
+    if(frameId != null) chrome.tabs.sendMessage(tabId, msg, { frameId }, done);
+    else chrome.tabs.sendMessage(tabId, msg, done);
+  });
+}
+
+// The DevTools panel (panel.ts) talks to the inspected tab's top frame through here. Only extension
+// pages may send these: messages from content scripts carry a tab.
+const PANEL_MSG_SOURCE = 'MixEnPanel'; // same string in panel.ts
+chrome.runtime.onMessage.addListener((msg, sender, sendResponse)=>{
+  if(!msg || msg.source !== PANEL_MSG_SOURCE || sender.tab || sender.id !== chrome.runtime.id) return;
+  tabCommand(msg.tabId, msg.cmd, msg.arg, 0).then(sendResponse);
+  return true; // async response
+});
+
+async function nudgeRatio(tabId: number, delta: number){
+  const status = await tabCommand(tabId, 'status', undefined, 0);
+  if(!status) return;
+  const ratio = Math.round(Math.max(RATIO_MIN, Math.min(RATIO_MAX, status.ratio + delta)) * 100) / 100;
+  // Apply to the tab first, like the popup, so saving it doesn't remix the tab a second time
+  await tabCommand(tabId, 'setRatio', ratio);
+  if(!status.siteRatio) chrome.storage.sync.set({ ratio }); // a site rule's ratio stays a per-page change
+}
+
+chrome.commands.onCommand.addListener((command, tab)=>{
+  const tabId = tab && tab.id;
+  if(tabId == null) return;
+  switch(command){
+    case 'toggle-page': tabCommand(tabId, 'toggle'); break;
+    case 'reshuffle': tabCommand(tabId, 'reshuffle'); break;
+    case 'reveal-originals': tabCommand(tabId, 'peek'); break;
+    case 'ratio-up': nudgeRatio(tabId, RATIO_STEP); break;
+    case 'ratio-down': nudgeRatio(tabId, -RATIO_STEP); break;
+  }
+});
+
+function createContextMenus(){
+  chrome.contextMenus.removeAll(()=>{
+    chrome.contextMenus.create({ id: 'mixen-translate', title: 'Translate selection with MixEn', contexts: ['selection'] });
+    // 'page' too: right-clicking a replaced word needs no selection
+    chrome.contextMenus.create({ id: 'mixen-never', title: 'Never replace this word', contexts: ['selection', 'page'] });
+    chrome.contextMenus.create({ id: 'mixen-add', title: 'Add selection to my dictionary', contexts: ['selection'] });
+  });
+}
+
+chrome.contextMenus.onClicked.addListener((info, tab)=>{
+  const tabId = tab && tab.id;
+  if(tabId == null) return;
+  const selection = (info.selectionText || '').trim();
+  switch(info.menuItemId){
+    case 'mixen-translate': tabCommand(tabId, 'translateSelection', undefined, info.frameId); break;
+    case 'mixen-never': tabCommand(tabId, 'neverReplace', selection, info.frameId); break;
+    case 'mixen-add':
+      // The options page fills the user dictionary form from the hash
+      chrome.tabs.create({ url: chrome.runtime.getURL('options.html') + '#add=' + encodeURIComponent(selection) });
+      break;
+  }
+});
+
+// Settings saved by an older version are migrated (settings.ts) and written back once per update
+async function migrateStoredSettings(){
+  const { settings, version } = await readSettings();
+  if(version < SETTINGS_VERSION) chrome.storage.sync.set(storedSettings(settings));
+}
+
+chrome.runtime.onInstalled.addListener(()=>{
+  // A new build brings new chunks; drop parsed copies of the old ones
+  cacheClear();
+  createContextMenus();
+  migrateStoredSettings();
+});
+
+// Dev tiny inline dict for first-run if no data files (only a few words)
+const DEV_ENTRIES: [string, DictEntry][] = [
+  ['你好', {en:['hello'], py:'ni3 hao3', tag:'common'}],
+  ['学习', {en:['study','learn'], py:'xue2 xi2', tag:'common', trad:'學習'}],
+  ['學習', {en:['study','learn'], py:'xue2 xi2', tag:'common', simp:'学习'}],
+  ['研究', {en:['research'], py:'yan2 jiu1', tag:'academic'}]
+];
@@ -0,0 +1,199 @@
+/*
+Word card popover for the content script
+- One card per frame, rendered in a closed shadow root attached to <html> so page CSS can't restyle
+  it and overflow:hidden containers can't clip it; positioned against the viewport (position:fixed).
+- Shows the shown sense, pinyin with tone marks, every sense of the entry, tag/pos, why the sense
+  was picked, a pronunciation button (Web Speech API) and the per-word actions.
+- Chengyu (phrase mode): the literal and the figurative meaning.
+- The agreement rule applied to the shown word (core.ts agreeNoun), e.g. "plural after 三个".
+- Reverse mode entries (`zh` set, English page): the Chinese shown with its pinyin, the English
+  word, and the other Chinese words for it.
+- The content script owns the data and persistence; it passes callbacks in.
+*/
+import { DictEntry, pinyinMarks } from './core';
+
+export interface CardInfo {
+  word: string; // Chinese (English in reverse mode) as it appeared on the page
+  shown: string; // English sense (Chinese in reverse mode) displayed in the page
+  reason?: string;
+  rule?: string; // agreement applied to `shown`
+  sense?: string; // the entry sense `shown` was inflected from
+  entry?: DictEntry;
+  lang?: string; // BCP 47 tag of `shown`, for pronunciation
+}
+export interface CardActions {
+  onKnown(info: CardInfo): void;
+  onNever(info: CardInfo): void;
+}
+export interface WordCard {
+  show(anchor: Element, info: CardInfo): void;
+  hide(): void;
+  contains(node: Node | null): boolean;
+}
+
+const TAG_LABEL: Record<string, string> = { common: 'common (NGSL)', academic: 'academic (AWL)', other: 'other' };
+const POS_LABEL: Record<string, string> = { n: 'noun' };
+const GAP = 6; // px between the word and the card
+const MARGIN = 8; // px kept free at the viewport edges
+
+const CSS = `
+:host { all: initial; }
+.card { position: fixed; z-index: 2147483647; box-sizing: border-box; max-width: 300px; min-width: 180px;
+  background: #202020; color: #fff; border-radius: 6px; padding: 8px 10px; box-shadow: 0 4px 14px rgba(0,0,0,.3);
+  font: 13px/1.4 system-ui, -apple-system, "Segoe UI", Roboto, "PingFang SC", "Microsoft YaHei", sans-serif; }
+.card[hidden] { display: none; }
+.head { display: flex; align-items: baseline; gap: 6px; }
+.en { font-size: 16px; font-weight: 600; }
+.zh { margin-top: 2px; }
+.py { color: #9ecbff; margin-left: 6px; }
+ol { margin: 6px 0 0; padding-left: 18px; }
+li.cur { color: #ffd54f; }
+.meta { margin-top: 6px; color: #aaa; font-size: 12px; }
+.tag { display: inline-block; border: 1px solid #555; border-radius: 3px; padding: 0 4px; margin-right: 4px; }
+.idiom { margin-top: 6px; }
+.idiom b { color: #aaa; font-weight: normal; }
+.reason, .rule { margin-top: 4px; color: #aaa; font-size: 12px; font-style: italic; }
+.actions { display: flex; gap: 6px; margin-top: 8px; }
+button { font: inherit; font-size: 12px; color: #fff; background: #3a3a3a; border: 1px solid #555; border-radius: 4px;
+  padding: 2px 8px; cursor: pointer; }
+button:hover { background: #4a4a4a; }
+button.say { padding: 0 5px; border: none; background: transparent; }
+`;
+
+function el(tag: string, cls?: string, text?: string): HTMLElement {
+  const e = document.createElement(tag);
+  if(cls) e.className = cls;
+  if(text != null) e.textContent = text;
+  return e;
+}
+
+function speak(text: string, lang: string){
+  try{
+    const synth = window.speechSynthesis;
+    if(!synth) return;
+    synth.cancel();
+    const u = new SpeechSynthesisUtterance(text);
+    u.lang = lang;
+    synth.speak(u);
+  }catch{ /* speech unavailable in this frame */ }
+}
+
+export function createWordCard(actions: CardActions): WordCard {
+  let host: HTMLElement | null = null;
+  let card: HTMLElement | null = null;
+
+  function ensure(): HTMLElement {
+    if(host && host.isConnected && card) return card;
+    host = document.createElement('mixen-card');
+    const root = host.attachShadow({ mode: 'closed' });
+    const style = document.createElement('style');
+    style.textContent = CSS;
+    const c = el('div', 'card');
+    c.hidden = true;
+    c.setAttribute('role', 'dialog');
+    root.appendChild(style);
+    root.appendChild(c);
+    card = c;
+    (document.documentElement || document.body).appendChild(host);
+    return c;
+  }
+
+  function render(c: HTMLElement, info: CardInfo){
+    const entry = info.entry || { en: [] };
+    const reverse = !!entry.zh;
+    c.textContent = '';
+
+    const head = el('div', 'head');
+    head.appendChild(el('span', 'en', info.shown));
+    if(reverse && entry.py) head.appendChild(el('span', 'py', pinyinMarks(entry.py)));
+    const say = el('button', 'say', '🔊') as HTMLButtonElement;
+    say.title = 'Pronounce';
+    say.addEventListener('click', ()=> speak(info.shown, info.lang || (reverse ? 'zh-CN' : 'en-US')));
+    head.appendChild(say);
+    c.appendChild(head);
+
+    const zh = el('div', 'zh', info.word);
+    if(!reverse && entry.py) zh.appendChild(el('span', 'py', pinyinMarks(entry.py)));
+    c.appendChild(zh);
+
+    if(reverse && entry.alt && entry.alt.length){
+      const ol = el('ol');
+      for(const a of entry.alt){
+        const li = el('li', '', a.w);
+        if(a.py) li.appendChild(el('span', 'py', pinyinMarks(a.py)));
+        ol.appendChild(li);
+      }
+      c.appendChild(ol);
+    } else {
+      const senses = (entry.en || []).concat(entry.ph || []);
+      if(senses.length > 1){
+        const ol = el('ol');
+        const cur = info.sense || info.shown;
+        for(const sense of senses) ol.appendChild(el('li', sense === cur ? 'cur' : '', sense));
+        c.appendChild(ol);
+      }
+    }
+    if(entry.lit || entry.fig){
+      const idiom = el('div', 'idiom');
+      for(const [label, text] of [['Literally', entry.lit], ['Meaning', entry.fig]]){
+        if(!text) continue;
+        const line = el('div');
+        line.append(el('b', '', label + ': '), text);
+        idiom.appendChild(line);
+      }
+      c.appendChild(idiom);
+    }
+
+    const meta = el('div', 'meta');
+    if(entry.tag) meta.appendChild(el('span', 'tag', TAG_LABEL[entry.tag] || entry.tag));
+    if(entry.pos) meta.appendChild(el('span', 'tag', POS_LABEL[entry.pos] || entry.pos));
+    if(entry.user) meta.appendChild(el('span', 'tag', 'your dictionary'));
+    if(meta.childNodes.length) c.appendChild(meta);
+    if(info.reason) c.appendChild(el('div', 'reason', info.reason));
+    if(info.rule) c.appendChild(el('div', 'rule', info.rule));
+
+    const row = el('div', 'actions');
+    const known = el('button', '', 'I know this');
+    known.title = 'Stop practising this word';
+    known.addEventListener('click', ()=>{ hide(); actions.onKnown(info); });
+    const never = el('button', '', 'Never replace');
+    never.title = reverse ? 'Always keep this word in English' : 'Always keep this word in Chinese';
+    never.addEventListener('click', ()=>{ hide(); actions.onNever(info); });
+    row.appendChild(known);
+    row.appendChild(never);
+    c.appendChild(row);
+  }
+
+  // Below the word if it fits, otherwise above; clamped to the viewport horizontally
+  function place(c: HTMLElement, anchor: Element){
+    const rects = anchor.getClientRects();
+    const r = rects.length ? rects[0] : anchor.getBoundingClientRect();
+    const w = c.offsetWidth, h = c.offsetHeight;
+    const vw = document.documentElement.clientWidth || window.innerWidth;
+    const vh = document.documentElement.clientHeight || window.innerHeight;
+    let top = r.bottom + GAP;
+    if(top + h > vh - MARGIN && r.top - GAP - h >= MARGIN) top = r.top - GAP - h;
+    const left = Math.max(MARGIN, Math.min(r.left, vw - w - MARGIN));
+    c.style.top = `${Math.round(top)}px`;
+    c.style.left = `${Math.round(left)}px`;
+  }
+
+  function show(anchor: Element, info: CardInfo){
+    const c = ensure();
+    render(c, info);
+    c.style.visibility = 'hidden';
+    c.hidden = false;
+    place(c, anchor);
+    c.style.visibility = '';
+  }
+
+  function hide(){
+    if(card) card.hidden = true;
+  }
+
+  function contains(node: Node | null): boolean {
+    return !!host && !!node && (node === host || host.contains(node));
+  }
+
+  return { show, hide, contains };
+}
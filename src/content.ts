@@ -1,8 +1,19 @@
 /*
 MixEn content script (MV3)
 - Scans text nodes for Chinese, replaces a fraction with English equivalents from CEDICT-derived dict.
-- Lightweight: lazy-load dict chunks on demand; minimal DOM changes; reversible.
+- Reverse mode (direction 'en-zh') does the same on English text, with Chinese replacements.
+- Lightweight: the background service worker (background.ts) loads the dictionary and segments
+  text for every frame; minimal DOM changes; reversible.
+- Segmentation, sense choice, agreement, filters and spacing live in core.ts (shared with the Node CLI).
 */
+import { DictEntry, Plurals, Script, Segment, SensePick, WordSeg, TARGET_LANGS, agreeNoun, chineseRatio, eligibleTokens, hasCJK, latinRatio, layoutParts, phraseTokens, pinyinMarks, reverseTokens, seededRandom, weightedOrder } from './core';
+import { CompiledRule, SiteDecision, compileSiteRules, patToRegExp, siteDecision, validSelectors } from './patterns';
+import { DayField, Encounter, NOTEBOOK_MSG_SOURCE, NotebookOp, dayKey, sentenceAround } from './notebook';
+import { DEFAULT_SETTINGS, SettingKey, Settings, readSettings, validSetting } from './settings';
+import { CardInfo, createWordCard } from './card';
+import { DICT_MSG_SOURCE, DictOp, DictStats, LookupResponse, SegmentResponse, decodeSegments } from './dictmsg';
+import { USER_DICT_KEY } from './userdict';
+
 (function(){
   // Debug toggle via localStorage: set localStorage['mixen_debug']='1' on the page to enable logs
   const DEBUG = (()=>{ try { return localStorage.getItem('mixen_debug') === '1'; } catch(e){ return false; } })();
@@ -10,44 +21,20 @@ MixEn content script (MV3)
   const extAlive = (): boolean => {
     try { return typeof chrome !== 'undefined' && !!(chrome as any).runtime && !!(chrome as any).runtime.id; } catch { return false; }
   };
-  const DEFAULT_SETTINGS = {
-    enabled: true,
-    ratio: 0.15, // 15% of eligible tokens
-    onlyNouns: true, // replace nouns only (POS if available; fallback heuristic)
-    // URL blacklist with wildcards. Default is ON for all pages; any matching pattern disables.
-    // Patterns support '*' (any chars) and '?' (single char), case-insensitive, matched against full URL.
-    blacklist: [],
-    minNodeLen: 4, // skip very short nodes (chars)
-    minChineseRatio: 0.3 // only process node if >=30% CJK
-  };
 
   const IGNORED_TAGS = new Set(['SCRIPT','STYLE','NOSCRIPT','IFRAME','OBJECT','CANVAS','SVG','MATH','CODE','KBD','SAMP','VAR','PRE','TEXTAREA','INPUT','SELECT','OPTION','BUTTON','TITLE','HEAD']);
 
   // Global state
-  let settings = Object.assign({}, DEFAULT_SETTINGS);
-  const DICT = new Map(); // word -> {en:[...], py:string, tag:'common'|'academic'|'other'}
-  let MAX_WORD_LEN = 4; // will be updated when loading chunks
-  const loadedGroups = new Set();
-  let indexMeta = null; // {groupSize, groups: {"g0": {file, count, maxLen}}}
-  let processing = false;
+  let settings: Settings = Object.assign({}, DEFAULT_SETTINGS);
+  // Entries of the words this frame has segmented (for the word card); the full dictionary
+  // lives in the service worker. word -> {en:[...], py, tag, trad?/simp?: other script's form}
+  const DICT = new Map<string, DictEntry>();
+  const PLURALS: Plurals = {}; // irregular plurals of those entries' senses (English), for agreeNoun
+  let dictStats: DictStats = { target: 'en', dictSize: 0, groupsLoaded: [], freqTotal: 0 };
   let stats = { nodes: 0, tokens: 0, replaced: 0 };
   const spanClass = 'mixen-word';
+  let pageScript: Script = 'both';
 
-  // Utility: detect if string has CJK Unified Ideographs
-  function hasCJK(s){
-    return /[\u4E00-\u9FFF]/.test(s);
-  }
-  function chineseRatio(s){
-    if(!s) return 0;
-    let cjk=0, total=0;
-    for(const ch of s){
-      const code = ch.codePointAt(0);
-      if(code === 32) continue;
-      total++;
-      if(code>=0x4E00 && code<=0x9FFF) cjk++;
-    }
-    return total? cjk/total : 0;
-  }
   function isEditable(node){
     if(!node) return false;
     if(node.nodeType === Node.ELEMENT_NODE){
@@ -71,116 +58,97 @@ MixEn content script (MV3)
     } catch { return true; }
   }
 
-  // Grouping scheme: 512-codepoint buckets starting from 0x4E00
-  function groupIdForChar(ch){
-    const code = ch.codePointAt(0);
-    if(code < 0x4E00 || code > 0x9FFF) return null;
-    const idx = Math.floor((code - 0x4E00) / 512);
-    return `g${idx}`;
+  // Script detection: frequent characters whose simplified and traditional forms differ
+  const TRAD_HINT = new Set('們這來國會說時對個為學發經樣後過還點開關實現長問與從當麼種讓'.split(''));
+  const SIMP_HINT = new Set('们这来国会说时对个为学发经样后过还点开关实现长问与从当么种让'.split(''));
+  function detectScript(): Script {
+    const pref = settings.script;
+    if(pref === 'simp' || pref === 'trad' || pref === 'both') return pref;
+    const lang = ((document.documentElement && document.documentElement.lang) || '').toLowerCase();
+    if(/^zh-(tw|hk|mo|hant)/.test(lang)) return 'trad';
+    if(/^zh-(cn|sg|hans)/.test(lang)) return 'simp';
+    const sample = ((document.body && document.body.textContent) || '').slice(0, 20000);
+    let t = 0, s = 0;
+    for(const ch of sample){
+      if(TRAD_HINT.has(ch)) t++;
+      else if(SIMP_HINT.has(ch)) s++;
+    }
+    if(t + s < 5) return 'both'; // not enough evidence yet
+    if(t > s * 2) return 'trad';
+    if(s > t * 2) return 'simp';
+    return 'both';
   }
 
-  async function ensureIndex(){
-    if(indexMeta) return;
-    if(!extAlive()) return; // extension context is gone
-    try{
-      const url = chrome.runtime.getURL('data/index.json');
-      const res = await fetch(url);
-      if(!res.ok) throw new Error('index fetch failed');
-      indexMeta = await res.json();
-      log('Index loaded groups=', Object.keys(indexMeta.groups||{}).length);
-    }catch(e){
-      // Fallback: no index available (dev mode). We'll rely on tiny inline DICT if any.
-      indexMeta = { groupSize: 512, groups: {} };
-      log('Index missing; using inline tiny dict only');
+  function reverseMode(): boolean {
+    return settings.direction === 'en-zh';
+  }
+
+  // Learning records are keyed by the simplified Chinese form, so both scripts (and both
+  // directions: reverse entries carry the Chinese in `zh`) share progress
+  function vocabKey(word: string, entry: DictEntry | undefined): string {
+    return (entry && (entry.simp || entry.zh)) || word;
+  }
+
+  // --- Dictionary (background service worker) ---
+  function dictRequest<T>(req: DictOp): Promise<T | null> {
+    return new Promise((resolve)=>{
+      if(!extAlive()) return resolve(null);
+      try{
+        chrome.runtime.sendMessage({ source: DICT_MSG_SOURCE, ...req }, (res)=>{
+          void chrome.runtime.lastError;
+          if(res && res.error) log('Dict request failed', req.op, res.error);
+          resolve(res && !res.error ? res : null);
+        });
+      }catch(e){ resolve(null); } // extension reloaded
+    });
+  }
+
+  // One round trip for a batch of text nodes; null when the worker can't be reached
+  async function segmentTexts(texts: string[]): Promise<Segment[][] | null> {
+    const res = reverseMode()
+      ? await dictRequest<SegmentResponse>({ op: 'segmentEn', texts, script: settings.script === 'trad' ? 'trad' : 'simp' })
+      : await dictRequest<SegmentResponse>({ op: 'segment', texts, script: pageScript, target: settings.target });
+    if(!res) return null;
+    const { words, entries, plurals, ...st } = res;
+    dictStats = st;
+    for(const w of Object.keys(entries)) DICT.set(w, entries[w]);
+    if(plurals) Object.assign(PLURALS, plurals);
+    return texts.map((text, k) => decodeSegments(text, words[k], entries));
+  }
+
+  async function lookupEntry(word: string): Promise<DictEntry | undefined> {
+    if(!DICT.has(word) && hasCJK(word)){
+      const res = await dictRequest<LookupResponse>({ op: 'lookup', words: [word], target: settings.target });
+      if(res && res.entries[word]) DICT.set(word, res.entries[word]);
     }
+    return DICT.get(word);
   }
 
-  async function ensureGroupLoaded(ch){
-    if(!extAlive()) return;
-    const gid = groupIdForChar(ch);
-    if(!gid || loadedGroups.has(gid)) return;
-    await ensureIndex();
-    const meta = indexMeta.groups[gid];
-    if(!meta) { loadedGroups.add(gid); return; }
-    try{
-      const url = chrome.runtime.getURL(`data/chunks/${meta.file}`);
-      const res = await fetch(url);
-      if(!res.ok) throw new Error('chunk fetch failed');
-      const chunk = await res.json();
-      // chunk: {maxLen:number, entries: [[word, {en:[...], py, tag}], ...]}
-      if(chunk.maxLen && chunk.maxLen > MAX_WORD_LEN) MAX_WORD_LEN = chunk.maxLen;
-      for(const [w, v] of chunk.entries){
-        DICT.set(w, v);
-      }
-      loadedGroups.add(gid);
-      log('Loaded chunk', meta.file, 'entries=', (chunk.entries&&chunk.entries.length)||0, 'maxLen=', chunk.maxLen);
-    }catch(e){
-      loadedGroups.add(gid);
-      log('Failed chunk', meta.file, e);
-    }
-  }
-
-  function chooseSense(entry){
-    // Choose display English: prefer shortest meaningful item
-    const list = entry.en || [];
-    if(!list.length) return '';
-    let best = list[0];
-    for(const s of list){ if(s && s.length < best.length) best = s; }
-    return best;
-  }
-
-  // Heuristic English POS classifier to prefer nouns
-  const NOUN_SUFFIX = ['tion','ment','ness','ity','ship','ance','ence','ism','ist','age','ery','or','er','ment','dom','hood','acy','tude','ure'];
-  const NOUN_HEADS = new Set(['club','league','game','year','page','subscription','team','player','policy','system','city','country','company','people','market','law','right','time','university','school','teacher','student','government','manager','engineer','result','research','study','data','method','model','problem','solution','case','issue','service','product','plan','project','area','region','river','mountain','province','county','district','airport','station','museum','library','network','computer','program','software','hardware','mobile','phone','car','bus','train','plane','house','room','home','office','doctor','hospital','money','price','cost','salary','contract','agreement','league','match','coach','referee','stadium']);
-  function isNounLike(en: string): boolean {
-    if(!en) return false;
-    const s = en.trim().toLowerCase();
-    if(!s) return false;
-    if(s.startsWith('to ')) return false; // verb infinitive
-    // crude: exclude common verb-ish endings if single token
-    const parts = s.split(/\s+/);
-    const head = parts[parts.length-1];
-    if(parts.length === 1){
-      if(head.endsWith('ing')) return false; // treat as verb/gerund for safety
-      for(const suf of NOUN_SUFFIX){ if(head.endsWith(suf)) return true; }
-      // common short nouns
-      if(NOUN_HEADS.has(head)) return true;
-      // one-word fallback: assume noun if length>3 and not containing hyphen
-      if(head.length >= 4 && !head.includes('-')) return true;
-      return false;
+  // Cheap per-node checks; visibility is left to the IntersectionObserver (see processing below)
+  function acceptText(node: Text): boolean {
+    const text = node.nodeValue;
+    if(!text || processed.has(node)) return false;
+    const p = node.parentElement;
+    if(!p) return false;
+    if(IGNORED_TAGS.has(p.nodeName)) return false;
+    if(p.closest(`.${spanClass}`)) return false; // our own annotation, bilingual and cloze text
+    const skip = siteNow().skip;
+    if(skip && p.closest(skip)) return false;
+    if(text.length < settings.minNodeLen) return false;
+    if(reverseMode()){
+      if(latinRatio(text) < settings.minEnglishRatio) return false;
     } else {
-      // Noun phrase: prefer if last head is a known noun, else accept multiword as noun phrase
-      if(NOUN_HEADS.has(head)) return true;
-      // reject if first token is 'to'
-      if(parts[0] === 'to') return false;
-      return true;
+      if(!hasCJK(text)) return false;
+      if(chineseRatio(text) < siteOpt('minChineseRatio')) return false;
     }
-  }
-  function tokenAllowed(entry): boolean {
-    // Drop multi-word English displays
-    const en = chooseSense(entry);
-    if(!en || /\s/.test(en)) return false;
-    if(!settings.onlyNouns) return true;
-    // Prefer POS if provided by dictionary build
-    if(entry && (entry.pos === 'n' || entry.pos === 'noun')) return true;
-    // Fallback heuristic on English sense
-    return isNounLike(en);
+    if(p.closest('[contenteditable]')) return false;
+    return true;
   }
 
   function* iterateTextNodes(root){
     const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
       acceptNode(node){
-        if(!node || !node.nodeValue) return NodeFilter.FILTER_REJECT;
-        const p = node.parentElement;
-        if(!p) return NodeFilter.FILTER_REJECT;
-        if(IGNORED_TAGS.has(p.nodeName)) return NodeFilter.FILTER_REJECT;
-        if(p.closest('[contenteditable]')) return NodeFilter.FILTER_REJECT;
-        if(!isVisible(p)) return NodeFilter.FILTER_REJECT;
-        const text = node.nodeValue;
-        if(text.length < settings.minNodeLen) return NodeFilter.FILTER_REJECT;
-        if(!hasCJK(text)) return NodeFilter.FILTER_REJECT;
-        if(chineseRatio(text) < settings.minChineseRatio) return NodeFilter.FILTER_REJECT;
-        return NodeFilter.FILTER_ACCEPT;
+        return acceptText(node as Text) ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_REJECT;
       }
     });
     let n;
@@ -189,8 +157,12 @@ MixEn content script (MV3)
     }
   }
 
-  // Also walk open shadow roots
+  // Also walk open shadow roots (and start observing the ones we haven't seen yet)
   function* iterateAllTextNodesDeep(root: Node | Document | DocumentFragment): Generator<Text> {
+    if(root.nodeType === Node.TEXT_NODE){
+      if(acceptText(root as Text)) yield root as Text;
+      return;
+    }
     // Yield direct text nodes under root
     for (const n of (iterateTextNodes as any)(root)) yield n as Text;
     // Find elements with open shadow roots and recurse
@@ -199,137 +171,454 @@ MixEn content script (MV3)
     while ((el = it.nextNode() as Element | null)) {
       const sr = (el as any).shadowRoot as ShadowRoot | undefined;
       if (sr) {
-        for (const n of (iterateTextNodes as any)(sr)) yield n as Text;
+        observeRoot(sr);
         for (const n of iterateAllTextNodesDeep(sr)) yield n as Text; // nested
       }
     }
   }
 
-  function segmentChinese(text){
-    // Forward maximum matching using DICT; only considers CJK spans, leaves others as-is.
-    const out = [];
-    let i = 0;
-    const N = text.length;
-    while(i < N){
-      const ch = text[i];
-      const code = ch.codePointAt(0);
-      if(code >= 0x4E00 && code <= 0x9FFF){
-        // Try longest match up to MAX_WORD_LEN
-        let matched = null;
-        let maxL = Math.min(MAX_WORD_LEN, N - i);
-        for(let l = maxL; l >= 1; l--){
-          const w = text.slice(i, i + l);
-          if(DICT.has(w)) { matched = {w, entry: DICT.get(w)}; break; }
-        }
-        if(matched){
-          out.push(matched);
-          i += matched.w.length;
-        } else {
-          // No match, keep single char as plain
-          out.push(text[i]);
-          i++;
+  // --- Vocabulary memory (spaced repetition) ---
+  // One record per Chinese word in chrome.storage.local under `vocab:<word>`, so tabs/frames
+  // only ever write the words they touched. A word shown and not hovered counts as a passed
+  // review (interval grows); hovering it means "didn't know" and it comes back soon.
+  // 'known' and 'never' words are not replaced; the word card sets them explicitly.
+  type VocabState = 'learning'|'known'|'never';
+  // right/wrong: cloze answers (a reveal counts as wrong)
+  type VocabRecord = { seen: number, hovered: number, lastSeen: number, state: VocabState, due: number, interval: number, right?: number, wrong?: number };
+  const VOCAB_PREFIX = 'vocab:';
+  const VOCAB_DAY_KEY = 'vocab_day';
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const SRS_FIRST_INTERVAL = 1; // days
+  const SRS_EASE = 2.5;
+  const SRS_RELEARN_MS = 10 * 60 * 1000; // hovered words are due again after 10 minutes
+  const SRS_KNOWN_INTERVAL = 60; // days; beyond this a word is considered known
+  const VOCAB = new Map<string, VocabRecord>();
+  let vocabDay = { day: '', newCount: 0 };
+  const vocabDirty = new Set<string>();
+  const shownThisPage = new Set<string>();
+  const hoveredThisPage = new Set<string>();
+  let vocabSaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function todayKey(){
+    const d = new Date();
+    return `${d.getFullYear()}-${d.getMonth()+1}-${d.getDate()}`;
+  }
+  function rollVocabDay(){
+    const day = todayKey();
+    if(vocabDay.day !== day) vocabDay = { day, newCount: 0 };
+  }
+
+  async function loadVocab(){
+    return new Promise<void>((resolve)=>{
+      chrome.storage.local.get(null, (res)=>{
+        for(const k of Object.keys(res || {})){
+          if(k.startsWith(VOCAB_PREFIX)) VOCAB.set(k.slice(VOCAB_PREFIX.length), res[k]);
         }
-      } else {
-        out.push(ch);
-        i++;
+        if(res && res[VOCAB_DAY_KEY]) vocabDay = res[VOCAB_DAY_KEY];
+        rollVocabDay();
+        log('Vocab loaded words=', VOCAB.size, 'newToday=', vocabDay.newCount);
+        resolve();
+      });
+    });
+  }
+
+  function saveVocabSoon(){
+    if(vocabSaveTimer) return;
+    vocabSaveTimer = setTimeout(()=>{
+      vocabSaveTimer = null;
+      if(!extAlive() || !vocabDirty.size) return;
+      const out: Record<string, VocabRecord> = {};
+      for(const w of vocabDirty){
+        const r = VOCAB.get(w);
+        if(r) out[VOCAB_PREFIX + w] = r;
+      }
+      vocabDirty.clear();
+      chrome.storage.local.set({ ...out, [VOCAB_DAY_KEY]: vocabDay });
+    }, 1000);
+  }
+
+  // Keep in sync with records written by other tabs/frames
+  function mergeVocabChanges(changes){
+    for(const k of Object.keys(changes)){
+      if(k === VOCAB_DAY_KEY && changes[k].newValue){
+        const nv = changes[k].newValue;
+        if(nv.day === vocabDay.day) vocabDay.newCount = Math.max(vocabDay.newCount, nv.newCount || 0);
+        else if(nv.day === todayKey()) vocabDay = nv;
+      } else if(k.startsWith(VOCAB_PREFIX)){
+        const w = k.slice(VOCAB_PREFIX.length);
+        if(vocabDirty.has(w)) continue; // our pending write wins
+        if(changes[k].newValue) VOCAB.set(w, changes[k].newValue);
+        else VOCAB.delete(w);
       }
     }
-    return out;
   }
 
-  function sampleIndices(n, ratio){
-    // Return a Set of indices in [0..n) to replace, using simple Bernoulli with cap
-    const target = Math.max(1, Math.floor(n * ratio));
-    const idxs = new Set();
-    // Use reservoir-like sampling
-    let i = 0;
-    while(idxs.size < target && i < n*3){
-      const r = Math.floor(Math.random() * n);
-      idxs.add(r);
-      i++;
+  // Called once per word per page when it is displayed in English
+  function recordShown(word: string){
+    if(shownThisPage.has(word)) return;
+    shownThisPage.add(word);
+    const now = Date.now();
+    let r = VOCAB.get(word);
+    if(!r){
+      r = { seen: 0, hovered: 0, lastSeen: 0, state: 'learning', due: 0, interval: 0 };
+      rollVocabDay();
+      vocabDay.newCount++;
+      notebookCount('new');
+    }
+    if(!r.lastSeen || dayKey(r.lastSeen) !== dayKey(now)) notebookCount('seen');
+    r.seen++;
+    if(r.due <= now){
+      r.interval = r.interval ? r.interval * SRS_EASE : SRS_FIRST_INTERVAL;
+      r.due = now + r.interval * DAY_MS;
+      if(r.interval >= SRS_KNOWN_INTERVAL && r.state !== 'known'){
+        r.state = 'known';
+        notebookCount('learned');
+      }
+    }
+    r.lastSeen = now;
+    VOCAB.set(word, r);
+    vocabDirty.add(word);
+    saveVocabSoon();
+  }
+
+  function recordHovered(word: string, sp: Element){
+    if(hoveredThisPage.has(word)) return;
+    hoveredThisPage.add(word);
+    recordEncounter(sp).catch((e)=> log('Notebook encounter failed', e));
+    const r = VOCAB.get(word);
+    if(!r || r.state === 'never') return;
+    r.hovered++;
+    relearn(word, r);
+  }
+
+  function relearn(word: string, r: VocabRecord){
+    r.interval = 0;
+    r.state = 'learning';
+    r.due = Date.now() + SRS_RELEARN_MS;
+    vocabDirty.add(word);
+    saveVocabSoon();
+  }
+
+  // A right answer is the passed review recordShown already counted; a wrong one (or a reveal)
+  // brings the word back soon, like hovering it
+  function recordAnswer(word: string, right: boolean){
+    const r = VOCAB.get(word);
+    if(!r) return;
+    if(right){
+      r.right = (r.right || 0) + 1;
+      vocabDirty.add(word);
+      saveVocabSoon();
+    } else {
+      r.wrong = (r.wrong || 0) + 1;
+      relearn(word, r);
+    }
+  }
+
+  // --- Vocabulary notebook (notebook.ts; the service worker stores it) ---
+  function notebookSend(req: NotebookOp){
+    if(!extAlive()) return;
+    chrome.runtime.sendMessage({ source: NOTEBOOK_MSG_SOURCE, ...req }, ()=>{ void chrome.runtime.lastError; });
+  }
+  function notebookCount(field: DayField){
+    notebookSend({ op: 'count', field });
+  }
+  async function recordEncounter(sp: Element){
+    const word = sp.getAttribute('data-original') || '';
+    const key = sp.getAttribute('data-key') || undefined;
+    const src = spanSource.get(sp);
+    const entry = await lookupEntry(word);
+    const encounter: Encounter = {
+      word,
+      shown: sp.getAttribute('data-shown') || '',
+      sentence: src ? sentenceAround(src.text, src.start, word.length) : word,
+      url: location.href,
+      title: document.title,
+      ts: Date.now()
+    };
+    if(key) encounter.key = key;
+    if(entry && entry.py) encounter.py = entry.py;
+    if(reverseMode()) encounter.dir = 'en-zh';
+    notebookSend({ op: 'encounter', encounter });
+  }
+
+  // --- Stable choices (seeded) ---
+  // Randomness comes from a seed (settings.seed, or URL + date) mixed with the node's text, so the
+  // same text gets the same replacements after a reload or an SPA re-render. Words shown on this
+  // page, with the sense used, are kept in the tab's sessionStorage for the same reason.
+  const pageWords = new Map<string, SensePick>(); // vocab key -> sense shown on this page
+  let pageSeed = '';
+  let pageSaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function computePageSeed(): string {
+    return settings.seed || `${location.origin}${location.pathname}${location.search}|${todayKey()}`;
+  }
+  function pageStoreKey(): string {
+    const lang = reverseMode() ? 'en-zh:' : settings.target !== 'en' ? settings.target + ':' : '';
+    return 'mixen_page:' + lang + pageSeed;
+  }
+  function loadPageWords(){
+    pageSeed = computePageSeed();
+    pageWords.clear();
+    try{
+      const raw = sessionStorage.getItem(pageStoreKey());
+      if(!raw) return;
+      for(const [w, pick] of Object.entries(JSON.parse(raw))){
+        pageWords.set(w, pick as SensePick);
+        shownThisPage.add(w); // already counted for SRS before the reload
+      }
+    }catch{ /* sandboxed frame or storage disabled */ }
+  }
+  function rememberPageWord(key: string, pick: SensePick){
+    if(pageWords.has(key)) return;
+    pageWords.set(key, { en: pick.en, reason: pick.reason });
+    if(pageSaveTimer) return;
+    pageSaveTimer = setTimeout(()=>{
+      pageSaveTimer = null;
+      try{ sessionStorage.setItem(pageStoreKey(), JSON.stringify(Object.fromEntries(pageWords))); }catch{}
+    }, 500);
+  }
+  function nodeRandom(text: string): () => number {
+    return seededRandom(pageSeed + '\u0000' + text);
+  }
+
+  // Pick which eligible tokens to replace: words shown earlier on this page and due reviews
+  // first (most overdue first), then never-seen words while today's new-word budget lasts,
+  // the ones that suit the chosen level best first.
+  // Known words and learning words that are not yet due are left in Chinese. In consistent
+  // mode every occurrence of a word already shown on this page is replaced, beyond the ratio.
+  function pickReplacements(segments: Segment[], tokens: number[], weights: number[], ratio: number, rand: () => number, atLeastOne = true): Set<number> {
+    // Phrases are few per node: their share is rounded at random instead of up to one
+    const target = atLeastOne ? Math.max(1, Math.floor(tokens.length * ratio)) : Math.floor(tokens.length * ratio + rand());
+    const now = Date.now();
+    rollVocabDay();
+    let newBudget = Math.max(0, settings.newPerDay - vocabDay.newCount);
+    // Seeded, level-weighted order up front; the stable sort below keeps it for ties
+    const order = weightedOrder(tokens, i => weights[i], rand);
+    const out = new Set<number>();
+    const due: {i:number, score:number}[] = [];
+    const fresh: number[] = [];
+    for(const i of order){
+      const seg = segments[i];
+      if(typeof seg === 'string') continue;
+      const w = vocabKey(seg.w, seg.entry);
+      const r = VOCAB.get(w);
+      if(r && (r.state === 'known' || r.state === 'never')) continue;
+      if(pageWords.has(w) || shownThisPage.has(w)){
+        if(settings.consistentWords) out.add(i);
+        else due.push({ i, score: Infinity });
+      }
+      else if(!r) fresh.push(i);
+      else if(r.due <= now) due.push({ i, score: (now - r.due) / Math.max(DAY_MS, r.interval * DAY_MS) });
+    }
+    due.sort((a,b)=> a.score === b.score ? 0 : (b.score > a.score ? 1 : -1));
+    for(const d of due){
+      if(out.size >= target) break;
+      out.add(d.i);
     }
-    return idxs;
+    const freshWords = new Set<string>();
+    for(const i of fresh){
+      if(out.size >= target) break;
+      const seg = segments[i] as WordSeg; // fresh holds word tokens only
+      const w = vocabKey(seg.w, seg.entry);
+      if(!freshWords.has(w)){
+        if(newBudget <= 0) continue;
+        newBudget--;
+        freshWords.add(w);
+      }
+      out.add(i);
+    }
+    return out;
   }
 
-  function createSpan(word: string, entry: any, leadingSpace = false, trailingSpace = false){
-    const en = chooseSense(entry) || word;
-    // Production: show English • 中文原词；不显示拼音
-    const tip = `${en} • ${word}`;
+  // Every display mode (settings.ts DisplayMode) is one span.mixen-word[data-original]
+  function createSpan(word: string, entry: DictEntry, pick: SensePick, leadingSpace = false, trailingSpace = false){
+    const en = pick.en || word;
     const span = document.createElement('span');
     span.className = spanClass;
-    span.textContent = (leadingSpace ? ' ' : '') + en + (trailingSpace ? ' ' : '');
     span.setAttribute('data-original', word);
-    span.setAttribute('data-tip', tip);
+    span.setAttribute('data-shown', en);
+    const key = vocabKey(word, entry);
+    if(key !== word) span.setAttribute('data-key', key);
+    if(pick.reason) span.setAttribute('data-reason', pick.reason); // shown on the word card
+    if(pick.rule) span.setAttribute('data-rule', pick.rule);
+    // Only the English replaces the tail (们); the modes that keep the Chinese show it
+    if(pick.tail) span.setAttribute('data-tail', pick.tail);
+    const zh = word + (pick.tail || '');
+    if(pick.type) span.classList.add('mixen-phrase');
+    switch(settings.display){
+      case 'annotate': {
+        const ruby = document.createElement('ruby');
+        const rt = document.createElement('rt');
+        rt.textContent = settings.rubyText === 'pinyin' && entry && entry.py ? pinyinMarks(entry.py) : en;
+        ruby.append(zh, rt);
+        span.appendChild(ruby);
+        break;
+      }
+      case 'bilingual':
+        span.textContent = `${zh}(${en})`;
+        break;
+      case 'cloze':
+        fillCloze(span, zh);
+        break;
+      default:
+        span.textContent = (leadingSpace ? ' ' : '') + en + (trailingSpace ? ' ' : '');
+    }
     return span;
   }
 
-  type CharKind = 'CJK'|'LATIN'|'SPACE'|'PUNCT'|'OTHER';
-  function charKind(ch: string): CharKind {
-    if(!ch) return 'OTHER';
-    const code = ch.codePointAt(0)!;
-    if (code === 32 || ch === '\n' || ch === '\t' || ch === '\r') return 'SPACE';
-    if (code >= 0x4E00 && code <= 0x9FFF) return 'CJK';
-    if ((code >= 48 && code <= 57) || (code >= 65 && code <= 90) || (code >= 97 && code <= 122)) return 'LATIN';
-    // treat everything else as punctuation-like for spacing purposes
-    return 'PUNCT';
+  // The page text a span stands for: the word and the tail the agreement took with it
+  function originalText(sp: Element): string {
+    return (sp.getAttribute('data-original') || '') + (sp.getAttribute('data-tail') || '');
+  }
+
+  // --- Cloze ---
+  // 中文(____): type the translation and press Enter, or click ? to reveal it. The word card stays
+  // closed until the blank is answered, since it would give the answer away.
+  function fillCloze(span: HTMLElement, word: string){
+    span.classList.add('mixen-cloze');
+    span.setAttribute('data-cloze', 'open');
+    const input = document.createElement('input');
+    input.className = 'mixen-blank';
+    input.type = 'text';
+    input.size = Math.max(4, (span.getAttribute('data-shown') || '').length);
+    input.setAttribute('aria-label', `Translate ${word}`);
+    input.autocomplete = 'off';
+    input.spellcheck = false;
+    const reveal = document.createElement('button');
+    reveal.className = 'mixen-reveal';
+    reveal.type = 'button';
+    reveal.textContent = '?';
+    reveal.title = 'Show the answer';
+    // Keep the page's own shortcuts out of the blank
+    input.addEventListener('keydown', (ev)=>{
+      ev.stopPropagation();
+      if(ev.key === 'Enter' && input.value.trim()) answerCloze(span, input.value);
+    });
+    input.addEventListener('keypress', (ev)=> ev.stopPropagation());
+    input.addEventListener('keyup', (ev)=> ev.stopPropagation());
+    reveal.addEventListener('click', (ev)=>{ ev.preventDefault(); ev.stopPropagation(); answerCloze(span, null); });
+    span.append(word + '(', input, reveal, ')');
+  }
+
+  function clozeAnswers(span: Element): string[] {
+    const entry: DictEntry = DICT.get(span.getAttribute('data-original') || '') || { en: [] };
+    const out = [span.getAttribute('data-shown') || ''];
+    if(entry.zh){
+      // Reverse mode: any of the Chinese words for it, in either script
+      if(entry.simp) out.push(entry.simp);
+      for(const a of entry.alt || []) out.push(a.w);
+    } else {
+      out.push(...(entry.en || []));
+    }
+    return out.map(normAnswer);
+  }
+  function normAnswer(s: string): string {
+    return (s || '').trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  // typed === null: revealed
+  function answerCloze(span: HTMLElement, typed: string | null){
+    if(span.getAttribute('data-cloze') !== 'open') return;
+    const answer = typed === null ? null : typed.trim();
+    const right = answer !== null && clozeAnswers(span).includes(normAnswer(answer));
+    const word = span.getAttribute('data-original') || '';
+    const shown = span.getAttribute('data-shown') || '';
+    span.setAttribute('data-cloze', right ? 'right' : 'wrong');
+    if(answer !== null && !right) span.title = `Your answer: ${typed}`;
+    span.textContent = `${originalText(span)}(${right ? answer : shown})`;
+    dropOwnMutations();
+    recordAnswer(span.getAttribute('data-key') || word, right);
+  }
+
+  // Segmentation around each replaced word, for the DevTools panel: 学校|的|[学生]|在
+  const CONTEXT_SEGMENTS = 3;
+  const spanContext = new WeakMap<Element, string>();
+  // Original text node and the word's offset in it, for the notebook's context sentence
+  const spanSource = new WeakMap<Element, { text: string, start: number }>();
+  function segmentContext(segments: Segment[], index: number): string {
+    const out: string[] = [];
+    for(let i = Math.max(0, index - CONTEXT_SEGMENTS); i <= Math.min(segments.length - 1, index + CONTEXT_SEGMENTS); i++){
+      const seg = segments[i];
+      const w = typeof seg === 'string' ? seg : seg.w;
+      out.push(i === index ? `[${w}]` : w);
+    }
+    return out.join('|');
+  }
+
+  // The characters just outside a text node, when the neighbour is inline (spacing at its ends)
+  const INLINE_TAGS = /^(#text|A|ABBR|B|BDI|BDO|CITE|DFN|EM|I|MARK|Q|S|SMALL|SPAN|STRONG|SUB|SUP|TIME|U)$/;
+  function edgeChars(node: Node): [string, string] {
+    const prev = node.previousSibling, next = node.nextSibling;
+    const before = prev && INLINE_TAGS.test(prev.nodeName) ? (prev.textContent || '').slice(-1) : '';
+    const after = next && INLINE_TAGS.test(next.nodeName) ? (next.textContent || '').charAt(0) : '';
+    return [before, after];
   }
 
-  function replaceInNode(textNode){
+  // allWords: every eligible word except 'never' ones, regardless of ratio and SRS (selection)
+  function replaceInNode(textNode, segments: Segment[], allWords = false){
+    processed.add(textNode);
     const text = textNode.nodeValue;
-    const segments = segmentChinese(text);
     // Collect eligible token positions
-    const tokens = [];
-    for(let i=0;i<segments.length;i++){
+    const { tokens, picks, weights } = (reverseMode() ? reverseTokens : eligibleTokens)(segments, siteOpt('onlyNouns'), settings.level, dictStats.freqTotal);
+    // Phrase mode: words with a phrase sense are a second pool, picked at the phrase ratio
+    const phrases = settings.phrases && !reverseMode() ? phraseTokens(segments, settings.level, dictStats.freqTotal) : null;
+    if(tokens.length === 0 && !(phrases && phrases.tokens.length)) return;
+    const notNever = (i: number)=>{
       const seg = segments[i];
-      if(typeof seg === 'object' && tokenAllowed(seg.entry)) tokens.push(i);
+      if(typeof seg === 'string') return false;
+      const r = VOCAB.get(vocabKey(seg.w, seg.entry));
+      return !r || r.state !== 'never';
+    };
+    const rand = nodeRandom(text);
+    const replaceSet = allWords ? new Set(tokens.filter(notNever)) : pickReplacements(segments, tokens, weights, siteOpt('ratio'), rand);
+    if(phrases && phrases.tokens.length){
+      const phraseSet = allWords ? new Set(phrases.tokens.filter(notNever)) : pickReplacements(segments, phrases.tokens, phrases.weights, settings.phraseRatio, rand, false);
+      // Several words next to another replacement would run into it
+      for(const i of phraseSet){
+        if(!phraseSet.has(i - 1)) replaceSet.delete(i - 1);
+        if(!phraseSet.has(i + 1)) replaceSet.delete(i + 1);
+        replaceSet.add(i);
+        picks[i] = phrases.picks[i];
+      }
     }
-    if(tokens.length === 0) return;
-    const idxs = sampleIndices(tokens.length, settings.ratio);
-    const replaceSet = new Set(Array.from(idxs).map(k => tokens[k]));
+    if(settings.consistentWords){
+      // Same English as the first time this word was replaced on the page, whatever the context
+      for(const i of replaceSet){
+        const seg = segments[i];
+        if(typeof seg === 'string') continue;
+        const prev = pageWords.get(vocabKey(seg.w, seg.entry));
+        if(prev) picks[i] = { en: prev.en, reason: 'same as earlier on this page' };
+      }
+    }
+    const offsets: number[] = [];
+    segments.reduce((pos, seg, i)=>{ offsets[i] = pos; return pos + (typeof seg === 'string' ? seg : seg.w).length; }, 0);
     // Build a fragment
     const frag = document.createDocumentFragment();
-    let lastKind: CharKind = 'OTHER';
-    for(let i=0;i<segments.length;i++){
-      const seg = segments[i];
-      if(typeof seg === 'object' && replaceSet.has(i)){
-        // Determine spacing based on neighbors (avoid cramping with CJK or LATIN on both sides)
-        // prev kind
-        let prevKind: CharKind = 'OTHER';
-        if(i > 0){
-          const prev = segments[i-1];
-          if(typeof prev === 'object'){
-            prevKind = replaceSet.has(i-1) ? 'LATIN' : 'CJK';
-          } else {
-            prevKind = charKind(prev);
-          }
-        } else {
-          prevKind = 'SPACE';
-        }
-        // next kind
-        let nextKind: CharKind = 'OTHER';
-        let nextIsReplaced = false;
-        if(i < segments.length - 1){
-          const next = segments[i+1];
-          if(typeof next === 'object'){
-            nextIsReplaced = replaceSet.has(i+1);
-            nextKind = nextIsReplaced ? 'LATIN' : 'CJK';
-          } else {
-            nextKind = charKind(next);
-          }
-        } else {
-          nextKind = 'SPACE';
-        }
-        const leading = (prevKind === 'CJK' || prevKind === 'LATIN');
-        // trailing only when next is CJK/LATIN and the next token is not another replaced token (to avoid double spaces)
-        const trailing = (nextKind === 'CJK' || nextKind === 'LATIN') && !nextIsReplaced;
-        frag.appendChild(createSpan(seg.w, seg.entry, leading, trailing));
-        lastKind = trailing ? 'SPACE' : 'LATIN';
-      } else if(typeof seg === 'object'){
-        frag.appendChild(document.createTextNode(seg.w));
-        lastKind = 'CJK';
+    const [before, after] = edgeChars(textNode);
+    // English nouns agree with the numerals, classifiers and plural markers around them; the
+    // senses before that are what the page remembers and the card highlights
+    const senses = picks.slice();
+    if(!reverseMode() && settings.target === 'en'){
+      for(const i of replaceSet){
+        const agreed = agreeNoun(segments, i, picks[i], PLURALS);
+        if(agreed) picks[i] = agreed;
+      }
+    }
+    for(const part of layoutParts(segments, replaceSet, picks, reverseMode() || TARGET_LANGS[settings.target].spaced, before, after)){
+      if(typeof part === 'string'){
+        const tn = document.createTextNode(part);
+        processed.add(tn);
+        frag.appendChild(tn);
       } else {
-        frag.appendChild(document.createTextNode(seg));
-        lastKind = charKind(seg);
+        const sense = senses[part.index];
+        const span = createSpan(part.w, part.entry, part.pick, part.leading, part.trailing);
+        if(part.pick.en !== sense.en) span.setAttribute('data-sense', sense.en);
+        spanContext.set(span, segmentContext(segments, part.index));
+        spanSource.set(span, { text, start: offsets[part.index] });
+        frag.appendChild(span);
+        const key = vocabKey(part.w, part.entry);
+        recordShown(key);
+        rememberPageWord(key, sense);
       }
     }
     textNode.parentNode.replaceChild(frag, textNode);
@@ -338,100 +627,419 @@ MixEn content script (MV3)
   }
 
   function revertAll(root){
+    closeCard(0);
     const spans = root.querySelectorAll(`span.${spanClass}[data-original]`);
+    const parents = new Set<Node>();
     for(const sp of spans){
-      const text = sp.getAttribute('data-original');
-      const tn = document.createTextNode(text);
+      const tn = document.createTextNode(originalText(sp));
+      if(sp.parentNode) parents.add(sp.parentNode);
       sp.replaceWith(tn);
     }
+    // Re-join the split text so a later pass sees the original nodes (and seeds) again
+    for(const p of parents) p.normalize();
+    dropOwnMutations();
+    resetProcessing();
+  }
+
+  // --- Word card ---
+  // Hover (or click, for touch) opens the card after a short delay; it stays open while the
+  // pointer is on the word or the card. Hovering counts as "didn't know" for the SRS.
+  const CARD_SHOW_MS = 250;
+  const CARD_HIDE_MS = 300;
+  const card = createWordCard({
+    onKnown: (info)=> setWordState(info, 'known'),
+    onNever: (info)=> setWordState(info, 'never')
+  });
+  let cardTimer: ReturnType<typeof setTimeout> | undefined;
+  let cardAnchor: Element | null = null;
+
+  function wordSpanFrom(target: EventTarget | null): Element | null {
+    const t = target as Element | null;
+    const sp = t && t.closest ? t.closest(`span.${spanClass}[data-original]`) : null;
+    return sp && sp.getAttribute('data-cloze') !== 'open' ? sp : null;
+  }
+  function cardInfo(sp: Element): CardInfo {
+    const word = sp.getAttribute('data-original') || '';
+    const lang = reverseMode() ? 'zh-CN' : TARGET_LANGS[settings.target].speech;
+    const info: CardInfo = { word, shown: sp.getAttribute('data-shown') || (sp.textContent || '').trim(), reason: sp.getAttribute('data-reason') || '', entry: DICT.get(word), lang };
+    const rule = sp.getAttribute('data-rule'), sense = sp.getAttribute('data-sense');
+    if(rule) info.rule = rule;
+    if(sense) info.sense = sense;
+    return info;
+  }
+  function openCard(sp: Element, delay: number){
+    clearTimeout(cardTimer);
+    cardTimer = setTimeout(async ()=>{
+      if(!sp.isConnected) return;
+      cardAnchor = sp;
+      await lookupEntry(sp.getAttribute('data-original') || '');
+      if(cardAnchor === sp) card.show(sp, cardInfo(sp));
+    }, delay);
+  }
+  function closeCard(delay: number){
+    clearTimeout(cardTimer);
+    cardTimer = setTimeout(()=>{ cardAnchor = null; card.hide(); }, delay);
+  }
+  function initWordCard(){
+    document.addEventListener('mouseover', (ev)=>{
+      if(card.contains(ev.target as Node)){ clearTimeout(cardTimer); return; }
+      const sp = wordSpanFrom(ev.target);
+      if(!sp){ if(cardAnchor) closeCard(CARD_HIDE_MS); return; }
+      recordHovered(sp.getAttribute('data-key') || sp.getAttribute('data-original') || '', sp);
+      if(sp !== cardAnchor) openCard(sp, CARD_SHOW_MS);
+      else clearTimeout(cardTimer);
+    }, true);
+    document.addEventListener('click', (ev)=>{
+      if(card.contains(ev.target as Node)) return;
+      const sp = wordSpanFrom(ev.target);
+      if(sp) openCard(sp, 0);
+      else if(cardAnchor) closeCard(0);
+    }, true);
+    document.addEventListener('keydown', (ev)=>{ if(ev.key === 'Escape' && cardAnchor) closeCard(0); }, true);
+    document.addEventListener('contextmenu', (ev)=>{ contextTarget = ev.target; }, true);
+    // The card is placed once against the viewport; don't leave it floating away from the word
+    window.addEventListener('scroll', ()=>{ if(cardAnchor) closeCard(0); }, true);
+    window.addEventListener('resize', ()=>{ if(cardAnchor) closeCard(0); });
+  }
+
+  // "I know this" / "Never replace": persist for the word and put it back into Chinese on this page
+  function setWordState(info: CardInfo, state: VocabState){
+    const key = vocabKey(info.word, info.entry);
+    const prev = VOCAB.get(key);
+    if(state === 'known' && (!prev || prev.state !== 'known')) notebookCount('learned');
+    const r = prev || { seen: 0, hovered: 0, lastSeen: Date.now(), state, due: 0, interval: 0 };
+    r.state = state;
+    if(state === 'known') r.interval = Math.max(r.interval, SRS_KNOWN_INTERVAL);
+    VOCAB.set(key, r);
+    vocabDirty.add(key);
+    saveVocabSoon();
+    pageWords.delete(key);
+    const parents = new Set<Node>();
+    for(const sp of Array.from(document.querySelectorAll(`span.${spanClass}[data-original]`))){
+      if((sp.getAttribute('data-key') || sp.getAttribute('data-original')) !== key) continue;
+      if(sp.parentNode) parents.add(sp.parentNode);
+      sp.replaceWith(document.createTextNode(originalText(sp)));
+      stats.replaced = Math.max(0, stats.replaced - 1);
+    }
+    for(const p of parents) p.normalize();
+  }
+
+  // --- On-page commands (keyboard shortcuts and context menu, via background.ts) ---
+  // Show the originals for a while: the spans keep their nodes aside and get them back after
+  const PEEK_MS = 3000;
+  const peeked = new Map<Element, Node[]>();
+  let peekTimer: ReturnType<typeof setTimeout> | undefined;
+  function peekOriginals(){
+    clearTimeout(peekTimer);
+    if(peeked.size){ endPeek(); return; } // pressed again: back now
+    closeCard(0);
+    for(const sp of Array.from(document.querySelectorAll(`span.${spanClass}[data-original]`))){
+      peeked.set(sp, Array.from(sp.childNodes));
+      sp.textContent = originalText(sp);
+    }
+    dropOwnMutations();
+    peekTimer = setTimeout(endPeek, PEEK_MS);
+  }
+  function endPeek(){
+    clearTimeout(peekTimer);
+    for(const [sp, nodes] of peeked) if(sp.isConnected) sp.replaceChildren(...nodes);
+    peeked.clear();
+    dropOwnMutations();
+  }
+
+  function togglePage(){
+    if(!settingsAllow()) return { allowed: false };
+    if(paused){
+      paused = false;
+      scheduleProcess(document.body);
+    } else {
+      paused = true;
+      revertAll(document.body);
+    }
+    return { paused };
+  }
+
+  // Every eligible word of the selected text nodes, even while paused
+  async function translateSelection(){
+    const sel = window.getSelection();
+    if(!sel || !sel.rangeCount || !extAlive()) return;
+    const nodes: Text[] = [];
+    for(let k = 0; k < sel.rangeCount; k++){
+      const range = sel.getRangeAt(k);
+      const root = range.commonAncestorContainer;
+      const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+      for(let n = root.nodeType === Node.TEXT_NODE ? root : walker.nextNode(); n; n = walker.nextNode()){
+        if(!range.intersectsNode(n)) continue;
+        processed.delete(n as Text); // also nodes an earlier pass left unchanged
+        if(acceptText(n as Text)) nodes.push(n as Text);
+      }
+    }
+    if(!nodes.length) return;
+    const texts = nodes.map(n => n.nodeValue || '');
+    const segs = await segmentTexts(texts);
+    if(!segs) return;
+    nodes.forEach((node, k)=>{
+      if(node.isConnected && node.nodeValue === texts[k]) replaceInNode(node, segs[k], true);
+    });
+    dropOwnMutations();
+    sel.removeAllRanges();
+  }
+
+  // The replaced word right-clicked on, or else the selected word
+  let contextTarget: EventTarget | null = null;
+  async function neverReplace(selection: string){
+    const sp = wordSpanFrom(contextTarget);
+    if(sp){
+      await lookupEntry(sp.getAttribute('data-original') || '');
+      setWordState(cardInfo(sp), 'never');
+      return;
+    }
+    const word = (selection || '').trim();
+    if(!word) return;
+    const entry = DICT.get(word) || DICT.get(word.toLowerCase()) || await lookupEntry(word);
+    setWordState({ word, shown: '', entry }, 'never');
+  }
+
+  let paused = false; // "revert all" from the popup: stay in Chinese until reshuffled or reloaded
+  function statsSnapshot(){
+    return { ...stats, dictSize: dictStats.dictSize, groupsLoaded: dictStats.groupsLoaded };
+  }
+  // Back to Chinese, then mix again from scratch (ratio change, reshuffle)
+  function remix(){
+    revertAll(document.body);
+    stats = { nodes: 0, tokens: 0, replaced: 0 };
+    scheduleProcess(document.body);
+  }
+  function reshuffle(){
+    paused = false;
+    pageSeed = computePageSeed() + '#' + Date.now().toString(36);
+    pageWords.clear();
+    remix();
+  }
+
+  // --- DevTools panel (panel.ts, through the service worker; top frame only) ---
+  let inspected: HTMLElement | null = null;
+  const INSPECT_TARGET = 'data-mixen-target'; // set on $0 by the panel, read by 'resegment'
+
+  function spanList(): HTMLElement[] {
+    return Array.from(document.querySelectorAll(`span.${spanClass}[data-original]`)) as HTMLElement[];
+  }
+  function inspectSpans(){
+    const spans = spanList().map((sp, i)=>({
+      index: i,
+      original: sp.getAttribute('data-original'),
+      shown: sp.getAttribute('data-shown'),
+      key: sp.getAttribute('data-key') || sp.getAttribute('data-original'),
+      reason: [sp.getAttribute('data-reason'), sp.getAttribute('data-rule')].filter(Boolean).join('; '),
+      context: spanContext.get(sp) || ''
+    }));
+    const site = siteNow().decision;
+    return { url: location.href, allowed: settingsAllow(), paused, site: site.reason, pageScript, stats: statsSnapshot(), spans };
+  }
+  function inspectHighlight(index: number){
+    if(inspected){ inspected.style.outline = ''; inspected.style.background = ''; inspected = null; }
+    const sp = index >= 0 ? spanList()[index] : undefined;
+    if(!sp) return { ok: false };
+    inspected = sp;
+    sp.style.outline = '2px solid #ff9800';
+    sp.style.background = 'rgba(255,235,59,.35)';
+    sp.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    return { ok: true };
+  }
+  // Put the marked element back to its original text and mix it again, reporting each segmentation
+  const RESEGMENT_MAX_NODES = 50;
+  async function resegment(){
+    const el = document.querySelector(`[${INSPECT_TARGET}]`);
+    if(!el) return { error: 'no element selected' };
+    el.removeAttribute(INSPECT_TARGET);
+    if(!settingsAllow() || paused) return { error: 'MixEn is not running on this page' };
+    const parents = new Set<Node>();
+    for(const sp of Array.from(el.querySelectorAll(`span.${spanClass}[data-original]`))){
+      if(sp.parentNode) parents.add(sp.parentNode);
+      sp.replaceWith(document.createTextNode(originalText(sp)));
+    }
+    for(const p of parents) p.normalize();
+    dropOwnMutations();
+    const all: Text[] = [];
+    const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+    for(let n = walker.nextNode(); n; n = walker.nextNode()){ processed.delete(n as Text); all.push(n as Text); }
+    const nodes = all.filter(acceptText).slice(0, RESEGMENT_MAX_NODES);
+    const texts = nodes.map(n => n.nodeValue || '');
+    const segs = await segmentTexts(texts);
+    if(!segs) return { error: 'segmentation failed' };
+    const out = nodes.map((node, k)=>{
+      const before = new Set(spanList());
+      replaceInNode(node, segs[k]);
+      stats.nodes++;
+      const replaced = spanList().filter(sp => !before.has(sp) && el.contains(sp)).map(sp => sp.getAttribute('data-original'));
+      return { text: texts[k], segments: segs[k].map(seg => typeof seg === 'string' ? seg : seg.w), replaced };
+    });
+    dropOwnMutations();
+    return { nodes: out, skipped: all.length - nodes.length };
   }
 
-  let mo = null;
+  // --- Incremental processing ---
+  // Mutations queue only the subtrees they touch. Queued text nodes are grouped by parent element
+  // and handed to an IntersectionObserver: on-screen ones go first, off-screen visible ones are
+  // done when the page is idle, hidden ones wait until they scroll into view. The work runs in
+  // requestIdleCallback slices of one batch each, segmented by the service worker.
+  const COLLECT_DELAY_MS = 200; // coalesce bursts of mutations
+  const SLICE_NODES = 40; // text nodes per slice (one round trip to the worker)
+  const SLICE_CHARS = 8000;
+  const VISIBLE_TIMEOUT_MS = 50; // on-screen work waits at most this long for an idle period
+  let processed = new WeakSet<Text>(); // text nodes already handled (replaced or not)
+  const pendingRoots = new Set<Node>();
+  const waiting = new Map<Element, Set<Text>>(); // parent -> text nodes, until the IO reports
+  const visibleQueue: Text[] = [];
+  const idleQueue: Text[] = [];
+  let collectTimer: ReturnType<typeof setTimeout> | null = null;
+  let sliceScheduled = false;
+  let io: IntersectionObserver | null = null;
+
+  let mo: MutationObserver | null = null;
+  const observedRoots = new WeakSet<Node>();
+  const MO_OPTS: MutationObserverInit = {subtree:true, childList:true, characterData:true};
+  function observeRoot(root: Node){
+    if(!mo || observedRoots.has(root)) return;
+    observedRoots.add(root);
+    mo.observe(root, MO_OPTS);
+  }
   function startObserve(){
     if(mo) return;
     mo = new MutationObserver((mutList)=>{
-      if(processing) return;
       for(const m of mutList){
         if(m.type === 'childList'){
-          scheduleProcess(m.target);
-          for(const n of m.addedNodes){
-            if(n.nodeType === Node.ELEMENT_NODE) scheduleProcess(n);
+          for(const n of Array.from(m.addedNodes)){
+            if(n.nodeType === Node.ELEMENT_NODE || n.nodeType === Node.TEXT_NODE) scheduleProcess(n);
           }
         } else if(m.type === 'characterData'){
-          scheduleProcess(m.target.parentNode || document.body);
+          processed.delete(m.target as Text); // new text: look at it again
+          scheduleProcess(m.target);
         }
       }
     });
-    const opts: MutationObserverInit = {subtree:true, childList:true, characterData:true};
-    mo.observe(document.documentElement || document.body, opts);
+    observeRoot(document.documentElement || document.body);
     // Observe open shadow roots as well (won't see closed roots)
     const it = document.createNodeIterator(document, NodeFilter.SHOW_ELEMENT);
     let el: Element | null;
     while ((el = it.nextNode() as Element | null)){
       const sr = (el as any).shadowRoot as ShadowRoot | undefined;
-      if (sr) mo.observe(sr, opts);
+      if (sr) observeRoot(sr);
     }
   }
 
-  let processTimer = null;
-  function scheduleProcess(root){
-    if(processTimer) return;
-    processTimer = setTimeout(async ()=>{
-      processTimer = null;
-      processing = true;
-      try{
-        if(!extAlive()) { processing = false; return; }
-        await ensureIndex();
-        // Warm-up: load group for common first char in page to avoid many small fetches
-        // We'll lazy-load per token as needed in ensureGroupLoaded inside segmentation path below.
-        let nodeCount = 0;
-        const scanRoot = document.body || root;
-        for(const node of iterateAllTextNodesDeep(scanRoot)){
-          const text = node.nodeValue;
-          // Preload dict groups for all unique CJK group ids in this node
-          const gids = new Set();
-          for(const ch of text){
-            const gid = groupIdForChar(ch);
-            if(gid) gids.add(gid);
-          }
-          for(const gid of gids){
-            if(!loadedGroups.has(gid)){
-              const meta = (indexMeta && indexMeta.groups) ? indexMeta.groups[gid] : null;
-              if(meta){
-                try{
-                  const url = chrome.runtime.getURL(`data/chunks/${meta.file}`);
-                  const res = await fetch(url);
-                  if(res.ok){
-                    const chunk = await res.json();
-                    if(chunk.maxLen && chunk.maxLen > MAX_WORD_LEN) MAX_WORD_LEN = chunk.maxLen;
-                    for(const [w, v] of chunk.entries){ DICT.set(w, v); }
-                  }
-                }catch(e){
-                  log('Prefetch chunk failed for', gid, meta.file, e);
-                } finally {
-                  loadedGroups.add(gid);
-                }
-              } else {
-                // If index not ready yet, try ensureIndex + ensureGroupLoaded on first CJK char as fallback
-                try {
-                  await ensureIndex();
-                  const m = text.match(/[\u4E00-\u9FFF]/);
-                  if(m) await ensureGroupLoaded(m[0]);
-                } catch(e) {
-                  log('ensureGroupLoaded fallback failed', e);
-                }
-              }
-            }
-          }
-          replaceInNode(node);
-          nodeCount++;
+  // Our own DOM changes must not come back as mutations to process
+  function dropOwnMutations(){
+    if(mo) mo.takeRecords();
+  }
+
+  function ensureIO(): IntersectionObserver {
+    if(io) return io;
+    io = new IntersectionObserver((entries, observer)=>{
+      for(const e of entries){
+        const nodes = waiting.get(e.target);
+        if(!nodes) continue;
+        if(e.isIntersecting) visibleQueue.push(...nodes);
+        else if(isVisible(e.target)) idleQueue.push(...nodes);
+        else continue; // hidden (display:none, collapsed...): keep watching
+        waiting.delete(e.target);
+        observer.unobserve(e.target);
+      }
+      scheduleSlice();
+    }, { rootMargin: '200px 0px' });
+    return io;
+  }
+
+  function scheduleProcess(root: Node | null){
+    if(paused || !root || !settingsAllow()) return;
+    pendingRoots.add(root);
+    if(collectTimer) return;
+    collectTimer = setTimeout(collect, COLLECT_DELAY_MS);
+  }
+
+  function collect(){
+    collectTimer = null;
+    if(!extAlive() || paused) { pendingRoots.clear(); return; }
+    // SPA shells may have had no text at init; keep trying until the script is known
+    if(settings.script === 'auto' && pageScript === 'both') pageScript = detectScript();
+    const roots = Array.from(pendingRoots);
+    pendingRoots.clear();
+    const observer = ensureIO();
+    for(const root of roots){
+      if(!root.isConnected) continue;
+      // Skip roots inside another queued root; the outer walk covers them
+      if(roots.some(r => r !== root && r.contains(root))) continue;
+      for(const node of iterateAllTextNodesDeep(root)){
+        const parent = node.parentElement;
+        if(!parent) continue;
+        let set = waiting.get(parent);
+        if(!set){
+          set = new Set();
+          waiting.set(parent, set);
+          observer.observe(parent);
         }
-        stats.nodes += nodeCount;
-        log('Processed batch', {nodes: nodeCount, tokens: stats.tokens, replaced: stats.replaced, url: location.href});
-      } finally {
-        processing = false;
+        set.add(node);
+      }
+    }
+  }
+
+  function scheduleSlice(){
+    if(sliceScheduled || paused || (!visibleQueue.length && !idleQueue.length)) return;
+    sliceScheduled = true;
+    const run = ()=>{ runSlice().catch((e)=> log('Slice failed', e)); };
+    if(typeof requestIdleCallback === 'function'){
+      requestIdleCallback(run, { timeout: visibleQueue.length ? VISIBLE_TIMEOUT_MS : 1000 });
+    } else {
+      setTimeout(run, 0);
+    }
+  }
+
+  function nextNode(): Text | null {
+    return visibleQueue.shift() || idleQueue.shift() || null;
+  }
+
+  async function runSlice(){
+    try{
+      if(!extAlive() || paused) return;
+      const batch: Text[] = [];
+      let chars = 0;
+      while(batch.length < SLICE_NODES && chars < SLICE_CHARS){
+        const node = nextNode();
+        if(!node) break;
+        // The page may have changed it since it was queued
+        if(!node.isConnected || !acceptText(node)) continue;
+        batch.push(node);
+        chars += (node.nodeValue || '').length;
       }
-    }, 200);
+      if(!batch.length) return;
+      const texts = batch.map(n => n.nodeValue || '');
+      const segs = await segmentTexts(texts);
+      if(!segs || paused) return;
+      const start = performance.now();
+      let nodeCount = 0;
+      batch.forEach((node, k)=>{
+        // Skip nodes that changed while the worker was segmenting; the observer queues them again
+        if(!node.isConnected || node.nodeValue !== texts[k] || processed.has(node)) return;
+        replaceInNode(node, segs[k]);
+        nodeCount++;
+      });
+      dropOwnMutations();
+      stats.nodes += nodeCount;
+      log('Processed slice', {nodes: nodeCount, ms: Math.round(performance.now() - start), queued: visibleQueue.length + idleQueue.length, replaced: stats.replaced});
+    } finally {
+      sliceScheduled = false;
+      scheduleSlice();
+    }
+  }
+
+  // Forget queued and tracked work (before a remix, or when switched off)
+  function resetProcessing(){
+    pendingRoots.clear();
+    visibleQueue.length = 0;
+    idleQueue.length = 0;
+    if(io) for(const el of waiting.keys()) io.unobserve(el);
+    waiting.clear();
+    processed = new WeakSet<Text>();
   }
 
   // Suppress noisy console error when extension is reloaded while page stays open
@@ -447,117 +1055,200 @@ MixEn content script (MV3)
     try { return location.hostname || ''; } catch(e){ return ''; }
   }
 
-  // --- URL pattern matching (wildcards) ---
-  function escapeRe(s: string){ return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); }
-  function patToRegExp(pat: string): RegExp | null {
-    const raw = (pat||'').trim();
-    if(!raw || raw.startsWith('#')) return null;
-    // Convert simple wildcards to regex, match full URL (case-insensitive)
-    const escaped = escapeRe(raw).replace(/\\\*/g, '.*').replace(/\\\?/g, '.');
-    try{ return new RegExp('^' + escaped + '$', 'i'); }catch{ return null; }
-  }
+  // --- URL pattern matching (wildcards, see patterns.ts) ---
   let blacklistRe: RegExp[] = [];
+  let siteRulesRe: CompiledRule[] = [];
   function compilePatternLists(cfg: any){
     const bl = Array.isArray(cfg.blacklist) ? cfg.blacklist : [];
     blacklistRe = bl.map(patToRegExp).filter(Boolean) as RegExp[];
+    siteRulesRe = compileSiteRules(cfg.siteRules);
+    siteMemo = null;
   }
 
-  async function loadSettings(){
-    return new Promise((resolve)=>{
-      chrome.storage.sync.get(DEFAULT_SETTINGS, (res)=>{
-        const cfg = Object.assign({}, DEFAULT_SETTINGS, res);
-        compilePatternLists(cfg);
-        resolve(cfg);
-      });
-    });
+  // Decision for the current URL, redone when the URL (SPA navigation) or the lists change
+  let siteMemo: { href: string, decision: SiteDecision, skip: string } | null = null;
+  function siteNow(){
+    const href = (location && location.href) ? location.href : '';
+    if(!siteMemo || siteMemo.href !== href){
+      const decision = siteDecision(settings, blacklistRe, siteRulesRe, href);
+      const rule = decision.rule && decision.rule.rule;
+      siteMemo = { href, decision, skip: rule ? validSelectors(rule.skip).join(', ') : '' };
+    }
+    return siteMemo;
   }
 
-  function urlMatchesAny(reList: RegExp[], url: string): boolean {
-    for(const re of reList){ if(re.test(url)) return true; }
-    return false;
+  type SiteKey = 'ratio' | 'onlyNouns' | 'minChineseRatio';
+  function siteOpt<K extends SiteKey>(key: K): Settings[K] {
+    const c = siteNow().decision.rule;
+    const v = c ? c.rule[key] : undefined;
+    return v != null ? v as any : settings[key];
+  }
+  // Popup/console adjustments apply to whatever currently decides the value on this page
+  function setSiteOpt<K extends SiteKey>(key: K, value: Settings[K]){
+    const c = siteNow().decision.rule;
+    if(c && c.rule[key] != null) (c.rule as any)[key] = value;
+    else settings[key] = value;
   }
+
+  async function loadSettings(): Promise<Settings> {
+    const { settings: cfg, problems } = await readSettings();
+    if(problems.length) log('Invalid stored settings replaced by defaults:', problems.join(', '));
+    compilePatternLists(cfg);
+    return cfg;
+  }
+
   function settingsAllow(){
-    const href = (location && location.href) ? location.href : '';
-    // Default ON, blacklist disables
-    if(!settings.enabled) return false; // keep switch semantics
-    if(blacklistRe.length && urlMatchesAny(blacklistRe, href)) return false;
-    return true;
+    // Global switch, blacklist, then per-site rules / allowlist-only (patterns.ts siteDecision)
+    return siteNow().decision.allowed;
   }
 
-  function onStorageChanged(changes){
-    let relevant = false;
+  // Settings that change which words are picked: already-mixed text has to be redone
+  const REMIX_KEYS = ['direction', 'target', 'display', 'rubyText', 'ratio', 'phrases', 'phraseRatio', 'onlyNouns', 'siteRules', 'level', 'script', 'seed', 'consistentWords', 'newPerDay'];
+  function onStorageChanged(changes, area){
+    if(area === 'local'){
+      mergeVocabChanges(changes);
+      if(changes[USER_DICT_KEY]){
+        DICT.clear(); // the worker merges the new entries itself
+        if(settingsAllow() && !paused) remix();
+      }
+      return;
+    }
+    const wasAllowed = settingsAllow();
+    let relevant = false, needRemix = false;
     for(const k of Object.keys(changes)){
       if(k in DEFAULT_SETTINGS){
-        settings[k] = changes[k].newValue;
+        const key = k as SettingKey;
+        const value = validSetting(key, changes[k].newValue);
+        // The popup applies a ratio to its own tab before saving it; no need to redo that tab
+        if(REMIX_KEYS.includes(key) && JSON.stringify(settings[key]) !== JSON.stringify(value)) needRemix = true;
+        (settings as any)[key] = value;
         relevant = true;
       }
     }
     if(!relevant) return;
     compilePatternLists(settings);
+    if('script' in changes) pageScript = detectScript();
+    if('target' in changes) DICT.clear(); // entries of the other language
+    if('seed' in changes || 'direction' in changes || 'target' in changes) loadPageWords();
+    if('debugBridge' in changes) initDebugBridge();
     if(settingsAllow()){
-      scheduleProcess(document.body);
+      if(!wasAllowed) paused = false;
+      startObserve();
+      if(needRemix && wasAllowed) remix();
+      else scheduleProcess(document.body);
     } else {
       revertAll(document.body);
     }
   }
 
+  // Commands from extension pages (popup) via chrome.runtime messaging, and from the page console
+  function runCommand(cmd: string, arg?: any): any {
+    switch(cmd){
+      case 'status': {
+        const site = siteNow().decision, rule = site.rule && site.rule.rule;
+        return { url: location.href, allowed: settingsAllow(), paused, ratio: siteOpt('ratio'), stats: statsSnapshot(),
+          siteReason: site.reason, siteRule: rule ? rule.pattern : null, siteRatio: !!rule && rule.ratio != null };
+      }
+      case 'stats': return statsSnapshot();
+      case 'highlight': {
+        const nodes = Array.from(document.querySelectorAll('span.mixen-word')) as HTMLElement[];
+        nodes.forEach((el,i)=>{ el.style.outline='2px solid #ff9800'; el.style.background='rgba(255,235,59,.35)'; el.setAttribute('data-idx', String(i+1)); });
+        return {count: nodes.length};
+      }
+      case 'clearHighlight': {
+        const nodes = Array.from(document.querySelectorAll('span.mixen-word')) as HTMLElement[];
+        nodes.forEach((el)=>{ el.style.outline=''; el.style.background=''; el.removeAttribute('data-idx'); });
+        return {ok:true};
+      }
+      case 'relax': setSiteOpt('minChineseRatio', validSetting('minChineseRatio', arg ?? 0.1)); scheduleProcess(document.body); return {minChineseRatio: siteOpt('minChineseRatio')};
+      case 'setRatio': {
+        const ratio = validSetting('ratio', arg ?? 0.2);
+        if(ratio !== siteOpt('ratio')){
+          setSiteOpt('ratio', ratio);
+          if(settingsAllow()) remix();
+        }
+        return {ratio: siteOpt('ratio')};
+      }
+      case 'processNow': scheduleProcess(document.body); return {ok:true};
+      case 'reshuffle': if(settingsAllow()) reshuffle(); return {ok:true};
+      case 'revertAll': paused = true; revertAll(document.body); return {ok:true};
+      case 'toggle': return togglePage();
+      case 'peek': peekOriginals(); return {ok:true};
+      case 'translateSelection': translateSelection().catch((e)=> log('Translate selection failed', e)); return {ok:true};
+      case 'neverReplace': neverReplace(arg).catch((e)=> log('Never replace failed', e)); return {ok:true};
+      case 'inspect': return inspectSpans();
+      case 'inspectHighlight': return inspectHighlight(typeof arg === 'number' ? arg : -1);
+      case 'resegment': return resegment(); // a Promise; the runtime listener waits for it
+      default: return {error: 'unknown command ' + cmd};
+    }
+  }
+
   async function init(){
     log('Init on', location.href);
     settings = await loadSettings();
+    await loadVocab();
+    loadPageWords();
     chrome.storage.onChanged.addListener(onStorageChanged);
+    chrome.runtime.onMessage.addListener((msg, _sender, sendResponse)=>{
+      if(!msg || msg.source !== 'MixEnCmd') return;
+      log('Recv runtime cmd', msg.cmd, msg.arg);
+      try{
+        const res = runCommand(msg.cmd, msg.arg);
+        if(res && typeof res.then === 'function'){
+          res.then(sendResponse, (err)=> sendResponse({error: String(err)}));
+          return true; // async response
+        }
+        sendResponse(res);
+      }catch(err){ sendResponse({error: String(err)}); }
+    });
+    initWordCard();
     if(!settingsAllow()) return;
+    pageScript = detectScript();
+    log('Page script', pageScript);
     // Kick off initial processing & observer
     scheduleProcess(document.body);
     startObserve();
-    // Expose debugging helpers for inspect
+    initDebugBridge();
+  }
+
+  // Page console control (window.MixEn in the content script console, postMessage 'MixEnCmd' from
+  // the page). Any script on the page can post messages, so this only runs with the debugBridge
+  // setting on, answers only to this origin, and only takes the read-only and debug commands it
+  // always had; the DevTools panel covers the rest without it.
+  const BRIDGE_COMMANDS = new Set(['stats', 'highlight', 'clearHighlight', 'relax', 'setRatio', 'processNow']);
+  let bridgeInstalled = false;
+  function initDebugBridge(){
+    if(bridgeInstalled || !settings.debugBridge) return;
+    bridgeInstalled = true;
     (window as any).MixEn = {
       version: '0.1.0',
       get settings(){ return settings; },
-      stats(){ return { ...stats, dictSize: DICT.size, groupsLoaded: Array.from(loadedGroups) }; },
+      stats(){ return statsSnapshot(); },
       list(){ return Array.from(document.querySelectorAll('span.mixen-word')); },
       highlight(){ const nodes = Array.from(document.querySelectorAll('span.mixen-word')) as HTMLElement[]; nodes.forEach((el,i)=>{ el.style.outline='2px solid #ff9800'; el.style.background='rgba(255,235,59,.35)'; el.setAttribute('data-idx', String(i+1)); }); return nodes.length; },
       clearHighlight(){ const nodes = Array.from(document.querySelectorAll('span.mixen-word')) as HTMLElement[]; nodes.forEach((el)=>{ el.style.outline=''; el.style.background=''; el.removeAttribute('data-idx'); }); },
       processNow(){ scheduleProcess(document.body); },
-      relax(threshold=0.1){ settings.minChineseRatio = threshold; scheduleProcess(document.body); },
-      setRatio(pct:number){ settings.ratio = Math.max(0, Math.min(1, pct)); scheduleProcess(document.body); }
+      site(){ const d = siteNow().decision; return { allowed: d.allowed, reason: d.reason, rule: d.rule && d.rule.rule }; },
+      relax(threshold=0.1){ setSiteOpt('minChineseRatio', validSetting('minChineseRatio', threshold)); scheduleProcess(document.body); },
+      setRatio(pct:number){ setSiteOpt('ratio', validSetting('ratio', pct)); scheduleProcess(document.body); }
     };
-
-    // Allow page Console to control via postMessage (content scripts run in isolated world)
     window.addEventListener('message', (ev: MessageEvent)=>{
+      // Checked per message: switching the setting off takes effect without a reload
+      if(!settings.debugBridge || ev.source !== window) return;
       const data = (ev && (ev as any).data) || {};
       if(!data || data.source !== 'MixEnCmd') return;
       const cmd = data.cmd as string;
       const arg = data.arg;
       log('Recv cmd', cmd, arg);
-      const respond = (payload: any)=> window.postMessage({source:'MixEn', kind:'resp', cmd, payload}, '*');
+      const respond = (payload: any)=> window.postMessage({source:'MixEn', kind:'resp', cmd, payload}, location.origin);
+      if(!BRIDGE_COMMANDS.has(cmd)){ respond({error: 'command not available from the page: ' + cmd}); return; }
       try{
-        switch(cmd){
-          case 'stats': respond({ ...stats, dictSize: DICT.size, groupsLoaded: Array.from(loadedGroups) }); break;
-          case 'highlight': {
-            const nodes = Array.from(document.querySelectorAll('span.mixen-word')) as HTMLElement[];
-            nodes.forEach((el,i)=>{ el.style.outline='2px solid #ff9800'; el.style.background='rgba(255,235,59,.35)'; el.setAttribute('data-idx', String(i+1)); });
-            respond({count: nodes.length});
-            break;
-          }
-          case 'clearHighlight': {
-            const nodes = Array.from(document.querySelectorAll('span.mixen-word')) as HTMLElement[];
-            nodes.forEach((el)=>{ el.style.outline=''; el.style.background=''; el.removeAttribute('data-idx'); });
-            respond({ok:true});
-            break;
-          }
-          case 'relax': settings.minChineseRatio = Math.max(0, Math.min(1, (arg ?? 0.1))); scheduleProcess(document.body); respond({minChineseRatio: settings.minChineseRatio}); break;
-          case 'setRatio': settings.ratio = Math.max(0, Math.min(1, (arg ?? 0.2))); scheduleProcess(document.body); respond({ratio: settings.ratio}); break;
-          case 'processNow': scheduleProcess(document.body); respond({ok:true}); break;
-        }
+        const res = runCommand(cmd, arg);
+        if(res && typeof res.then === 'function') res.then(respond, (err)=> respond({error: String(err)}));
+        else respond(res);
       }catch(err){ respond({error: String(err)}); }
     });
   }
 
-  // Dev tiny inline dict for first-run if no data files (only a few words)
-  DICT.set('你好', {en:['hello'], py:'ni3 hao3', tag:'common'});
-  DICT.set('学习', {en:['study','learn'], py:'xue2 xi2', tag:'common'});
-  DICT.set('研究', {en:['research'], py:'yan2 jiu1', tag:'academic'});
-  MAX_WORD_LEN = 2;
-
   init();
 })();
@@ -0,0 +1,672 @@
+/*
+MixEn core (no DOM, no chrome.*)
+- Segmentation, sense choice, eligibility filters, sampling and spacing shared by the content
+  script and the Node library/CLI (src/node.ts, tools/mixen.js).
+- Reverse mode (English pages, Chinese replacements) reuses the same Segment/pick/layout shapes.
+- Callers own the dictionary state and pass it in as a `Dict`.
+*/
+
+// word -> {en:[...], py, tag:'common'|'academic'|'other', f, cx?, pos?, trad?/simp?: other script's form}
+export interface DictEntry {
+  en: string[];
+  py?: string;
+  tag?: string;
+  pos?: string;
+  f?: number;
+  cx?: string[];
+  trad?: string;
+  simp?: string;
+  proper?: boolean; // proper noun
+  user?: boolean; // from the user dictionary (userdict.ts)
+  ph?: string[]; // phrase mode senses (build_dict.js pickPhrases), typed in pht
+  pht?: PhraseType[];
+  lit?: string; // chengyu: literal meaning
+  fig?: string; // chengyu: figurative meaning
+  zh?: string; // reverse mode: the Chinese shown (reverseDictEntry)
+  alt?: { w: string, py?: string }[]; // reverse mode: the other Chinese words for it
+}
+export interface Dict {
+  entries: Map<string, DictEntry>;
+  maxLen: number;
+  freqTotal: number;
+  // Words held outside `entries` (binary trie chunks, see trie.ts); `entries` wins for the same word
+  prefix?: PrefixIndex;
+  // English datasets only: irregular plurals for agreeNoun on top of its built-in ones (empty
+  // without WordNet); no agreement when unset
+  plurals?: Plurals;
+}
+export interface PrefixIndex {
+  // fn(length, entry) for every word starting at text[start] and ending at or before `end`
+  matches(text: string, start: number, end: number, fn: (len: number, entry: DictEntry) => void): void;
+}
+export type WordSeg = { w: string, entry: DictEntry };
+export type Segment = string | WordSeg;
+export type Script = 'simp'|'trad'|'both';
+// `en` is the text shown in place of the word: English, or Chinese in reverse mode;
+// `rule` is the agreement applied to it (agreeNoun) and `tail` the text right after the word that
+// the agreement folded into it (学生们 -> students)
+export type SensePick = { en: string, reason: string, type?: PhraseType, rule?: string, tail?: string };
+
+// Sum of entry frequencies when index.json has none; words/chars without `f` count as 1
+export const DEFAULT_FREQ_TOTAL = 1e6;
+
+// Utility: detect if string has CJK Unified Ideographs
+export function hasCJK(s: string): boolean {
+  return /[\u4E00-\u9FFF]/.test(s);
+}
+export function isCJKCode(code: number): boolean {
+  return code >= 0x4E00 && code <= 0x9FFF;
+}
+export function chineseRatio(s: string): number {
+  if(!s) return 0;
+  let cjk=0, total=0;
+  for(const ch of s){
+    const code = ch.codePointAt(0)!;
+    if(code === 32) continue;
+    total++;
+    if(isCJKCode(code)) cjk++;
+  }
+  return total? cjk/total : 0;
+}
+
+// Grouping scheme: 512-codepoint buckets starting from 0x4E00
+export function groupIdForChar(ch: string): string | null {
+  const code = ch.codePointAt(0)!;
+  if(!isCJKCode(code)) return null;
+  const idx = Math.floor((code - 0x4E00) / 512);
+  return `g${idx}`;
+}
+
+// Simplified-only keys carry `trad`, traditional-only keys carry `simp` (see build_dict.js)
+export function scriptAllows(entry: DictEntry, script: Script): boolean {
+  if(script === 'trad') return !entry.trad;
+  if(script === 'simp') return !entry.simp;
+  return true;
+}
+
+// --- Pinyin ---
+// CEDICT numbered pinyin ("xue2 xi2", "lu:4") -> tone marks ("xué xí", "lǜ"); tone 5 is neutral
+const TONE_MARKS: Record<string, string> = { a: 'āáǎà', e: 'ēéěè', i: 'īíǐì', o: 'ōóǒò', u: 'ūúǔù', 'ü': 'ǖǘǚǜ' };
+function markSyllable(syl: string): string {
+  const m = /^([A-Za-z:üÜ]+)([1-5])$/.exec(syl);
+  if(!m) return syl.replace(/u:/g, 'ü').replace(/U:/g, 'Ü');
+  const base = m[1].replace(/u:|v/g, 'ü').replace(/U:|V/g, 'Ü');
+  const tone = parseInt(m[2], 10);
+  if(tone === 5) return base;
+  const lower = base.toLowerCase();
+  // a or e takes the mark; in "ou" it is the o; otherwise the last vowel
+  let at = lower.search(/[ae]/);
+  if(at < 0) at = lower.indexOf('ou');
+  if(at < 0){
+    for(let k = lower.length - 1; k >= 0; k--){ if('iouü'.includes(lower[k])){ at = k; break; } }
+  }
+  if(at < 0) return base; // syllabic consonants (m2, ng2, r5)
+  const marked = TONE_MARKS[lower[at]][tone - 1];
+  return base.slice(0, at) + (base[at] === lower[at] ? marked : marked.toUpperCase()) + base.slice(at + 1);
+}
+export function pinyinMarks(py: string): string {
+  return (py || '').split(' ').map(markSyllable).join(' ');
+}
+
+// --- Segmentation ---
+export function segmentChinese(text: string, dict: Dict, script: Script = 'both'): Segment[] {
+  // Max-probability segmentation (jieba-style) over each CJK run; other chars are left as-is.
+  // Output: {w, entry} for dictionary words, plain one-char strings for everything else.
+  const out: Segment[] = [];
+  let i = 0;
+  const N = text.length;
+  while(i < N){
+    if(!isCJKCode(text.charCodeAt(i))){
+      out.push(text[i]);
+      i++;
+      continue;
+    }
+    let j = i + 1;
+    while(j < N && isCJKCode(text.charCodeAt(j))) j++;
+    segmentRun(text, i, j, dict, script, out);
+    i = j;
+  }
+  return out;
+}
+
+// DAG over text[start..end): every dictionary word is an edge, every single char is an edge
+// with frequency 1. Dynamic programming from the right picks the route with the highest
+// sum of log(f / total), so 研究生命 -> 研究 + 生命 rather than 研究生 + 命.
+function segmentRun(text: string, start: number, end: number, dict: Dict, script: Script, out: Segment[]){
+  const n = end - start;
+  const logTotal = Math.log(dict.freqTotal || DEFAULT_FREQ_TOTAL);
+  const best = new Float64Array(n + 1);
+  const len = new Int32Array(n);
+  const hit: (DictEntry | null)[] = new Array(n);
+  const cand: (DictEntry | undefined)[] = new Array(dict.maxLen + 1);
+  const useMap = !dict.prefix || dict.entries.size > 0;
+  for(let k = n - 1; k >= 0; k--){
+    best[k] = -Infinity;
+    const maxL = Math.min(dict.maxLen, n - k);
+    cand.fill(undefined);
+    if(dict.prefix) dict.prefix.matches(text, start + k, start + k + maxL, (l, e)=>{ cand[l] = e; });
+    if(useMap){
+      for(let l = 1; l <= maxL; l++){
+        const e = dict.entries.get(text.slice(start + k, start + k + l));
+        if(e) cand[l] = e;
+      }
+    }
+    for(let l = 1; l <= maxL; l++){
+      const entry = cand[l];
+      const ok = !!entry && scriptAllows(entry, script);
+      if(!ok && l > 1) continue;
+      const f = ok && entry!.f! > 0 ? entry!.f! : 1;
+      const score = Math.log(f) - logTotal + best[k + l];
+      // '>=' so that ties go to the longer word
+      if(score >= best[k]){
+        best[k] = score;
+        len[k] = l;
+        hit[k] = ok ? entry! : null;
+      }
+    }
+  }
+  for(let k = 0; k < n; k += len[k]){
+    const w = text.slice(start + k, start + k + len[k]);
+    const entry = hit[k];
+    out.push(entry ? { w, entry } : w);
+  }
+}
+
+// --- Sense selection ---
+// entry.en is ranked at build time (most frequent English first, see build_dict.js) and
+// entry.cx[k] holds cue words for en[k] taken from the CEDICT gloss, e.g. 'computing'.
+// At runtime a sense whose gloss or cues share a stem with the glosses of nearby dictionary
+// words in the same text node can beat the build-time order.
+const CONTEXT_WINDOW = 4; // segments on each side
+const CONTEXT_WEIGHT = 1.5; // one context hit outweighs one rank step
+
+function stemEn(w: string): string {
+  return w.toLowerCase().slice(0, 5);
+}
+function senseStems(entry: DictEntry, k: number): string[] {
+  const out = [stemEn(entry.en[k])];
+  const cues = entry.cx && entry.cx[k];
+  if(cues) for(const c of cues.split(' ')) if(c) out.push(stemEn(c));
+  return out;
+}
+// stem -> neighbouring Chinese word that contributed it
+export function contextStems(segments: Segment[], i: number): Map<string, string> {
+  const ctx = new Map<string, string>();
+  const lo = Math.max(0, i - CONTEXT_WINDOW), hi = Math.min(segments.length - 1, i + CONTEXT_WINDOW);
+  for(let j = lo; j <= hi; j++){
+    const seg = segments[j];
+    if(j === i || typeof seg !== 'object') continue;
+    const list = seg.entry.en || [];
+    for(let k = 0; k < list.length; k++){
+      for(const st of senseStems(seg.entry, k)) if(!ctx.has(st)) ctx.set(st, seg.w);
+    }
+  }
+  return ctx;
+}
+
+export function chooseSense(entry: DictEntry, ctx?: Map<string, string> | null): SensePick {
+  const list = entry.en || [];
+  if(!list.length) return { en: '', reason: '' };
+  if(list.length === 1) return { en: list[0], reason: '' };
+  let best = 0, bestScore = -Infinity, bestCues: string[] = [];
+  for(let k = 0; k < list.length; k++){
+    const cues: string[] = [];
+    if(ctx && ctx.size){
+      for(const st of senseStems(entry, k)){
+        const from = ctx.get(st);
+        if(from && !cues.includes(from)) cues.push(from);
+      }
+    }
+    const score = -k + CONTEXT_WEIGHT * cues.length;
+    if(score > bestScore){ best = k; bestScore = score; bestCues = cues; }
+  }
+  const reason = bestCues.length ? `fits context: ${bestCues.join('、')}` : 'most common sense';
+  return { en: list[best], reason };
+}
+
+// --- Eligibility ---
+// Heuristic English POS classifier to prefer nouns
+const NOUN_SUFFIX = ['tion','ment','ness','ity','ship','ance','ence','ism','ist','age','ery','or','er','ment','dom','hood','acy','tude','ure'];
+const NOUN_HEADS = new Set(['club','league','game','year','page','subscription','team','player','policy','system','city','country','company','people','market','law','right','time','university','school','teacher','student','government','manager','engineer','result','research','study','data','method','model','problem','solution','case','issue','service','product','plan','project','area','region','river','mountain','province','county','district','airport','station','museum','library','network','computer','program','software','hardware','mobile','phone','car','bus','train','plane','house','room','home','office','doctor','hospital','money','price','cost','salary','contract','agreement','league','match','coach','referee','stadium']);
+export function isNounLike(en: string): boolean {
+  if(!en) return false;
+  const s = en.trim().toLowerCase();
+  if(!s) return false;
+  if(s.startsWith('to ')) return false; // verb infinitive
+  // crude: exclude common verb-ish endings if single token
+  const parts = s.split(/\s+/);
+  const head = parts[parts.length-1];
+  if(parts.length === 1){
+    if(head.endsWith('ing')) return false; // treat as verb/gerund for safety
+    for(const suf of NOUN_SUFFIX){ if(head.endsWith(suf)) return true; }
+    // common short nouns
+    if(NOUN_HEADS.has(head)) return true;
+    // one-word fallback: assume noun if length>3 and not containing hyphen
+    if(head.length >= 4 && !head.includes('-')) return true;
+    return false;
+  } else {
+    // Noun phrase: prefer if last head is a known noun, else accept multiword as noun phrase
+    if(NOUN_HEADS.has(head)) return true;
+    // reject if first token is 'to'
+    if(parts[0] === 'to') return false;
+    return true;
+  }
+}
+export function tokenAllowed(entry: DictEntry, en: string, onlyNouns: boolean): boolean {
+  // Drop multi-word English displays, except terms the user added on purpose
+  if(!en || (/\s/.test(en) && !entry.user)) return false;
+  if(!onlyNouns) return true;
+  // Prefer POS if provided by dictionary build
+  if(entry && (entry.pos === 'n' || entry.pos === 'noun')) return true;
+  // Fallback heuristic on English sense
+  return isNounLike(en);
+}
+
+// --- Difficulty level ---
+// A word's level comes from its English list tag (NGSL 'common', AWL 'academic', else 'other')
+// and how frequent the Chinese word is. Weight 0 drops the word; higher weights are picked first.
+export type Level = 'all'|'beginner'|'intermediate'|'academic';
+export const LEVELS: Level[] = ['all', 'beginner', 'intermediate', 'academic'];
+export type FreqBand = 'high'|'mid'|'low';
+const BAND_HIGH_PM = 50; // occurrences per million words
+const BAND_MID_PM = 5;
+type BandWeights = Record<FreqBand, number>;
+const LEVEL_WEIGHTS: Record<Exclude<Level, 'all'>, Record<string, BandWeights>> = {
+  beginner: {
+    common: { high: 3, mid: 1, low: 0 },
+    academic: { high: 0, mid: 0, low: 0 },
+    other: { high: 0, mid: 0, low: 0 }
+  },
+  intermediate: {
+    common: { high: 0.5, mid: 2, low: 1 },
+    academic: { high: 1, mid: 1, low: 0.5 },
+    other: { high: 0.5, mid: 2, low: 1 }
+  },
+  academic: {
+    common: { high: 0, mid: 0.3, low: 0.5 },
+    academic: { high: 3, mid: 3, low: 2 },
+    other: { high: 0.3, mid: 1, low: 1.5 }
+  }
+};
+
+// Without frequency data (freqTotal 0) every word counts as 'mid'
+export function freqBand(entry: DictEntry, freqTotal: number): FreqBand {
+  if(!freqTotal) return 'mid';
+  const pm = (entry.f || 1) / freqTotal * 1e6;
+  return pm >= BAND_HIGH_PM ? 'high' : pm >= BAND_MID_PM ? 'mid' : 'low';
+}
+export function levelWeight(entry: DictEntry, level: Level, freqTotal: number): number {
+  const table = level !== 'all' ? LEVEL_WEIGHTS[level] : null;
+  if(!table) return 1;
+  const byBand = table[entry.tag || 'other'] || table.other;
+  return byBand[freqBand(entry, freqTotal)];
+}
+
+// Indices of dictionary words that may be replaced, with the sense each would show and its
+// level weight (only tokens with weight > 0 are returned)
+export function eligibleTokens(segments: Segment[], onlyNouns: boolean, level: Level = 'all', freqTotal = 0): { tokens: number[], picks: SensePick[], weights: number[] } {
+  const tokens: number[] = [];
+  const picks: SensePick[] = [];
+  const weights: number[] = [];
+  for(let i=0;i<segments.length;i++){
+    const seg = segments[i];
+    if(typeof seg !== 'object') continue;
+    const weight = levelWeight(seg.entry, level, freqTotal);
+    if(weight <= 0) continue;
+    const multi = seg.entry.en && seg.entry.en.length > 1;
+    const pick = chooseSense(seg.entry, multi ? contextStems(segments, i) : null);
+    if(tokenAllowed(seg.entry, pick.en, onlyNouns)){ picks[i] = pick; weights[i] = weight; tokens.push(i); }
+  }
+  return { tokens, picks, weights };
+}
+
+// --- Phrase mode ---
+// Opt-in: set phrases, proper nouns and chengyu shown as several words (entry.ph), picked at their
+// own ratio. onlyNouns doesn't apply to them; the level does.
+export type PhraseType = 'phrase'|'proper'|'idiom';
+const PHRASE_REASON: Record<PhraseType, string> = { phrase: 'set phrase', proper: 'proper noun', idiom: 'chengyu (idiom)' };
+
+export function phraseTokens(segments: Segment[], level: Level = 'all', freqTotal = 0): { tokens: number[], picks: SensePick[], weights: number[] } {
+  const tokens: number[] = [];
+  const picks: SensePick[] = [];
+  const weights: number[] = [];
+  for(let i=0;i<segments.length;i++){
+    const seg = segments[i];
+    if(typeof seg !== 'object' || !seg.entry.ph || !seg.entry.ph.length) continue;
+    const weight = levelWeight(seg.entry, level, freqTotal);
+    if(weight <= 0) continue;
+    const type = (seg.entry.pht && seg.entry.pht[0]) || 'phrase';
+    picks[i] = { en: seg.entry.ph[0], reason: PHRASE_REASON[type] || PHRASE_REASON.phrase, type };
+    weights[i] = weight;
+    tokens.push(i);
+  }
+  return { tokens, picks, weights };
+}
+
+// --- Agreement ---
+// The sense shown for a Chinese noun is a bare lemma; the words just before and after it say
+// whether it is counted: 三个学生 -> three students, 学生们 -> students, 很多书 -> books. 一个学生
+// stays singular and the rule shows the article. `plurals` holds the irregular forms
+// (build_dict.js plurals.json, from WordNet noun.exc): singular -> plural; the common ones are
+// built in, for data built without noun.exc.
+export type Plurals = Record<string, string>;
+const NUMERAL = '[零一二两三四五六七八九十百千万亿几0-9０-９]';
+// Classifiers of single countable things; containers (杯, 瓶) and pairs (双, 对) are left out, as
+// 两杯水 is not "two waters"
+const COUNTED = new RegExp(`(?:^|[^零一二两三四五六七八九十百千万亿几0-9０-９])(${NUMERAL}+)[个位名只本张条件辆台家所座棵头匹部篇首块片间颗根枚艘栋幅封盏项]$`);
+const PLURAL_BEFORE = /(很多|许多|好多|不少|众多|诸多|多个|各种|若干|好些|[这那一有某哪]些)的?$/;
+const PLURAL_AFTER = /^们/;
+const CONTEXT_CHARS = 6; // of adjacent text on each side
+// Same in the plural, or not counted
+const NO_PLURAL = new Set(['sheep', 'deer', 'fish', 'series', 'species', 'aircraft', 'cattle', 'people', 'police', 'news',
+  'clothes', 'means', 'data', 'information', 'advice', 'equipment', 'furniture', 'luggage', 'baggage', 'homework',
+  'knowledge', 'research', 'money', 'music', 'traffic', 'weather', 'water', 'rice', 'milk', 'tea', 'coffee', 'bread']);
+const IRREGULAR_PLURALS: Plurals = {
+  child: 'children', person: 'people', man: 'men', woman: 'women', foot: 'feet', tooth: 'teeth', mouse: 'mice',
+  goose: 'geese', louse: 'lice', ox: 'oxen', knife: 'knives', wife: 'wives', life: 'lives', leaf: 'leaves',
+  half: 'halves', shelf: 'shelves', wolf: 'wolves', thief: 'thieves', loaf: 'loaves', calf: 'calves', potato: 'potatoes',
+  tomato: 'tomatoes', hero: 'heroes', echo: 'echoes', cactus: 'cacti', criterion: 'criteria', phenomenon: 'phenomena',
+  analysis: 'analyses', crisis: 'crises', thesis: 'theses', hypothesis: 'hypotheses', basis: 'bases', diagnosis: 'diagnoses'
+};
+// Compounds inflect like their last part: grandchild, policeman, chairwoman
+const IRREGULAR_ENDING = /(child|man|woman|person|tooth|foot|mouse|goose)$/;
+const REGULAR_MAN = new Set(['human', 'german', 'roman', 'shaman', 'talisman', 'caiman', 'ottoman']);
+const AN_EXCEPT = /^(uni|use|usu|ur[aeiou]|eu|one|once)/;
+const AN_SILENT_H = /^(hour|honest|honou?r|heir)/;
+
+// Same rules as nounHead in build_dict.js: the word before "of" ("cup of tea"), else the last word
+function nounHeadIndex(words: string[]): number {
+  const of = words.indexOf('of');
+  return of > 0 ? of - 1 : words.length - 1;
+}
+export function nounHead(sense: string): string {
+  const words = (sense || '').toLowerCase().trim().split(/\s+/);
+  return words[nounHeadIndex(words)];
+}
+export function indefiniteArticle(word: string): string {
+  const w = word.toLowerCase();
+  return (/^[aeiou]/.test(w) && !AN_EXCEPT.test(w)) || AN_SILENT_H.test(w) ? 'an' : 'a';
+}
+// Irregular plural of one word: `plurals` first, then the built-in table and its compounds
+function irregularPlural(w: string, plurals?: Plurals | null): string {
+  const has = (table: Plurals, k: string)=> Object.prototype.hasOwnProperty.call(table, k);
+  if(plurals && has(plurals, w)) return plurals[w];
+  if(has(IRREGULAR_PLURALS, w)) return IRREGULAR_PLURALS[w];
+  const m = w.match(IRREGULAR_ENDING);
+  if(m && !REGULAR_MAN.has(w)) return w.slice(0, -m[1].length) + IRREGULAR_PLURALS[m[1]];
+  return '';
+}
+export function pluralNoun(sense: string, plurals?: Plurals | null): string {
+  const words = sense.split(' ');
+  const k = nounHeadIndex(words);
+  const w = words[k];
+  const irregular = irregularPlural(w, plurals);
+  if(irregular) words[k] = irregular;
+  else if(NO_PLURAL.has(w)) return sense;
+  else if(/(s|x|z|ch|sh)$/.test(w)) words[k] = w + 'es';
+  else if(/[^aeiou]y$/.test(w)) words[k] = w.slice(0, -1) + 'ies';
+  else words[k] = w + 's';
+  return words.join(' ');
+}
+
+// Text of the segments touching segments[i] on one side, up to CONTEXT_CHARS and stopping at
+// anything that is not CJK or a digit
+function adjacentText(segments: Segment[], i: number, step: 1 | -1): string {
+  let out = '';
+  for(let j = i + step; j >= 0 && j < segments.length && out.length < CONTEXT_CHARS; j += step){
+    const seg = segments[j];
+    const w = typeof seg === 'string' ? seg : seg.w;
+    if(!/^[\u4E00-\u9FFF0-9０-９]+$/.test(w)) break;
+    out = step < 0 ? w + out : out + w;
+  }
+  return out;
+}
+
+// The shown sense inflected for the words around segments[i], or null when nothing applies.
+// Only lower-case noun senses of one to a few words are touched; not phrases or proper nouns.
+export function agreeNoun(segments: Segment[], i: number, pick: SensePick, plurals?: Plurals | null): SensePick | null {
+  const seg = segments[i];
+  const en = pick.en;
+  if(typeof seg !== 'object' || pick.type || !en || !/^[a-z][a-z' -]*$/.test(en) || en.startsWith('to ')) return null;
+  if(!(seg.entry.pos === 'n' || seg.entry.pos === 'noun' || isNounLike(en))) return null;
+  const before = adjacentText(segments, i, -1), after = adjacentText(segments, i, 1);
+  const counted = before.match(COUNTED);
+  // 三个: the numeral and its classifier, without the character matched before them
+  const cl = counted ? counted[1] + counted[0].slice(-1) : '';
+  if(counted && /^[一1１]$/.test(counted[1])) return { ...pick, rule: `singular after ${cl}: ${indefiniteArticle(en)} ${en}` };
+  let why = '';
+  if(counted) why = `after ${cl}`;
+  else if(PLURAL_BEFORE.test(before)) why = `after ${before.match(PLURAL_BEFORE)![1]}`;
+  else if(PLURAL_AFTER.test(after)) why = 'with 们';
+  if(!why) return null;
+  // 学生们: the English plural says what 们 said, so 们 goes with the word
+  const tail = why === 'with 们' && segText(segments[i + 1]) === '们' ? '们' : '';
+  const plural = pluralNoun(en, plurals);
+  const words = en.split(' ');
+  const head = words[nounHeadIndex(words)];
+  if(plural === en) return { ...pick, rule: `${why}: ${head} has no plural form` };
+  const irregular = irregularPlural(head, plurals);
+  const note = irregular ? ` (irregular: ${head} → ${irregular})` : '';
+  const out: SensePick = { ...pick, en: plural, rule: `plural ${why}${note}` };
+  if(tail) out.tail = tail;
+  return out;
+}
+
+// --- Reverse mode (English -> Chinese) ---
+// build_dict.js writes an English headword index from the same CEDICT data (data/en/{letter}.json):
+// english -> Chinese words that translate it, best first. Page words are looked up as written
+// (lower case), then by their noun lemma.
+export type Direction = 'zh-en'|'en-zh';
+export interface ReverseWord { w: string; py?: string; trad?: string; f?: number }
+export interface ReverseEntry { zh: ReverseWord[]; tag?: string; pos?: string }
+
+// --- Target language ---
+// Chinese pages can show another language than English: build_dict.js --target writes that
+// dataset to data/{lang}/ (English stays in data/). Its glosses are in `en` all the same.
+export type TargetLang = 'en'|'fr'|'de'|'ja';
+export const TARGET_LANGS: Record<TargetLang, { label: string, speech: string, spaced: boolean }> = {
+  en: { label: 'English', speech: 'en-US', spaced: true },
+  fr: { label: 'Français', speech: 'fr-FR', spaced: true },
+  de: { label: 'Deutsch', speech: 'de-DE', spaced: true },
+  ja: { label: '日本語', speech: 'ja-JP', spaced: false } // kana/kanji sit in Chinese text without spaces
+};
+export function targetDataDir(target: TargetLang): string {
+  return target === 'en' ? 'data/' : `data/${target}/`;
+}
+
+export function reverseGroupId(word: string): string | null {
+  const c = (word || '').charAt(0).toLowerCase();
+  return c >= 'a' && c <= 'z' ? c : null;
+}
+
+// Share of ASCII letters among non-space chars (the minChineseRatio check for English pages)
+export function latinRatio(s: string): number {
+  if(!s) return 0;
+  let latin = 0, total = 0;
+  for(let k = 0; k < s.length; k++){
+    const code = s.charCodeAt(k);
+    if(code === 32) continue;
+    total++;
+    if((code >= 65 && code <= 90) || (code >= 97 && code <= 122)) latin++;
+  }
+  return total ? latin / total : 0;
+}
+
+// Same rules as simpleLemmaNoun in build_dict.js: WordNet noun.exc first, then regular plurals
+export function lemmaNoun(word: string, exc?: Record<string, string> | null): string {
+  const w = (word || '').toLowerCase();
+  if(!w) return '';
+  if(exc && Object.prototype.hasOwnProperty.call(exc, w)) return exc[w];
+  if(w.endsWith('ies')) return w.slice(0, -3) + 'y';
+  if(w.endsWith('ses') || w.endsWith('xes') || w.endsWith('zes') || w.endsWith('ches') || w.endsWith('shes')) return w.slice(0, -2);
+  if(w.endsWith('ves')) return w.slice(0, -3) + 'f';
+  if(w.endsWith('s') && w.length > 3) return w.slice(0, -1);
+  return w;
+}
+
+// Word tokens of English text; apostrophes and inner hyphens stay inside the word
+const EN_WORD = /[A-Za-z]+(?:['\u2019-][A-Za-z]+)*/g;
+// Capitalised words are taken for names unless they start a sentence; acronyms are skipped
+function likelyName(text: string, start: number, word: string): boolean {
+  if(/[A-Z]/.test(word.slice(1))) return true;
+  if(!/^[A-Z]/.test(word)) return false;
+  const before = text.slice(0, start).trimEnd();
+  return !!before && !/[.!?:"\u201C]$/.test(before);
+}
+
+// Same output shape as segmentChinese: {w, entry} for words found by `lookup`, one-char strings
+// for everything else. `lookup` gets the lower-cased word.
+export function segmentEnglish(text: string, lookup: (word: string) => DictEntry | undefined): Segment[] {
+  const out: Segment[] = [];
+  let pos = 0;
+  EN_WORD.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while((m = EN_WORD.exec(text))){
+    const w = m[0];
+    if(likelyName(text, m.index, w)) continue;
+    const entry = lookup(w.toLowerCase());
+    if(!entry) continue;
+    for(; pos < m.index; pos++) out.push(text[pos]);
+    out.push({ w, entry });
+    pos = m.index + w.length;
+  }
+  for(; pos < text.length; pos++) out.push(text[pos]);
+  return out;
+}
+
+// Segment entry for an English word: en = [headword], zh = the Chinese shown in `script`
+// (simplified unless 'trad'), simp = its simplified form when that differs, so learning records
+// are shared with the Chinese -> English direction; alt = the other candidates.
+export function reverseDictEntry(headword: string, r: ReverseEntry, script: Script): DictEntry {
+  const [best, ...rest] = r.zh;
+  const trad = script === 'trad' && !!best.trad;
+  const entry: DictEntry = { en: [headword], zh: trad ? best.trad : best.w, py: best.py, f: best.f, tag: r.tag };
+  if(trad) entry.simp = best.w;
+  if(r.pos) entry.pos = r.pos;
+  if(rest.length) entry.alt = rest.map(z => ({ w: script === 'trad' && z.trad ? z.trad : z.w, py: z.py }));
+  return entry;
+}
+
+const REVERSE_MIN_WORD = 3; // "a", "I", "it"... stay in English
+// eligibleTokens for English segments: picks carry the Chinese to show
+export function reverseTokens(segments: Segment[], onlyNouns: boolean, level: Level = 'all', freqTotal = 0): { tokens: number[], picks: SensePick[], weights: number[] } {
+  const tokens: number[] = [];
+  const picks: SensePick[] = [];
+  const weights: number[] = [];
+  for(let i=0;i<segments.length;i++){
+    const seg = segments[i];
+    if(typeof seg !== 'object' || !seg.entry.zh || seg.w.length < REVERSE_MIN_WORD) continue;
+    const weight = levelWeight(seg.entry, level, freqTotal);
+    if(weight <= 0) continue;
+    if(onlyNouns && seg.entry.pos !== 'n' && !isNounLike(seg.entry.en[0])) continue;
+    picks[i] = { en: seg.entry.zh, reason: '' };
+    weights[i] = weight;
+    tokens.push(i);
+  }
+  return { tokens, picks, weights };
+}
+
+// --- Sampling ---
+// Small seedable PRNG (mulberry32 over an FNV-1a hash of the seed)
+export function seededRandom(seed: string | number): () => number {
+  let h = 0x811c9dc5;
+  for(const ch of String(seed)){
+    h ^= ch.codePointAt(0)!;
+    h = Math.imul(h, 0x01000193);
+  }
+  let a = h >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Random order where heavier items tend to come first (Efraimidis-Spirakis keys)
+export function weightedOrder(items: number[], weight: (item: number) => number, rand: () => number = Math.random): number[] {
+  const keyed = items.map(item => ({ item, key: Math.pow(rand(), 1 / Math.max(weight(item), 1e-6)) }));
+  keyed.sort((a, b)=> b.key - a.key);
+  return keyed.map(k => k.item);
+}
+
+export function sampleIndices(n: number, ratio: number, rand: () => number = Math.random, weights?: number[]): Set<number> {
+  if(weights){
+    const target = Math.max(1, Math.floor(n * ratio));
+    const all = Array.from({ length: n }, (_, k) => k);
+    return new Set(weightedOrder(all, k => weights[k], rand).slice(0, target));
+  }
+  // Return a Set of indices in [0..n) to replace, using simple Bernoulli with cap
+  const target = Math.max(1, Math.floor(n * ratio));
+  const idxs = new Set<number>();
+  // Use reservoir-like sampling
+  let i = 0;
+  while(idxs.size < target && i < n*3){
+    const r = Math.floor(rand() * n);
+    idxs.add(r);
+    i++;
+  }
+  return idxs;
+}
+
+// --- Spacing / layout ---
+function segText(seg: Segment | undefined): string {
+  return seg === undefined ? '' : typeof seg === 'string' ? seg : seg.w;
+}
+export type CharKind = 'CJK'|'LATIN'|'SPACE'|'PUNCT'|'OTHER';
+export function charKind(ch: string): CharKind {
+  if(!ch) return 'OTHER';
+  const code = ch.codePointAt(0)!;
+  if (code === 32 || ch === '\n' || ch === '\t' || ch === '\r') return 'SPACE';
+  if (isCJKCode(code)) return 'CJK';
+  if ((code >= 48 && code <= 57) || (code >= 65 && code <= 90) || (code >= 97 && code <= 122)) return 'LATIN';
+  // treat everything else as punctuation-like for spacing purposes
+  return 'PUNCT';
+}
+
+export type MixPart = string | { w: string, entry: DictEntry, pick: SensePick, leading: boolean, trailing: boolean, index: number, tail: string };
+
+// Turn segments into output parts: runs of untouched text, and replacements with the spaces
+// they need so English does not run into neighbouring CJK/Latin text (none when !spaced).
+// `before`/`after` are the characters just outside the text (a neighbouring node), so a word at
+// either end is spaced from the text around it as well. A pick's `tail` segment goes into the
+// part (`tail`) instead of the text after it.
+export function layoutParts(segments: Segment[], replaceSet: Set<number>, picks: SensePick[], spaced = true, before = '', after = ''): MixPart[] {
+  const out: MixPart[] = [];
+  let run = '';
+  let tailAt = -1; // index of the last segment taken as a tail
+  for(let i=0;i<segments.length;i++){
+    const seg = segments[i];
+    if(typeof seg === 'object' && replaceSet.has(i)){
+      const tail = picks[i] && picks[i].tail && segText(segments[i+1]) === picks[i].tail && !replaceSet.has(i+1) ? picks[i].tail! : '';
+      const n = i + (tail ? 2 : 1); // first segment after the part
+      // Determine spacing based on neighbors (avoid cramping with CJK or LATIN on both sides)
+      let prevKind: CharKind = before ? charKind(before) : 'SPACE';
+      if(i > 0){
+        const prev = segments[i-1];
+        prevKind = i - 1 === tailAt || (typeof prev === 'object' && replaceSet.has(i-1)) ? 'LATIN' : typeof prev === 'object' ? 'CJK' : charKind(prev);
+      }
+      let nextKind: CharKind = after ? charKind(after) : 'SPACE';
+      let nextIsReplaced = false;
+      if(n < segments.length){
+        const next = segments[n];
+        if(typeof next === 'object'){
+          nextIsReplaced = replaceSet.has(n);
+          nextKind = nextIsReplaced ? 'LATIN' : 'CJK';
+        } else {
+          nextKind = charKind(next);
+        }
+      }
+      const leading = spaced && (prevKind === 'CJK' || prevKind === 'LATIN');
+      // trailing only when next is CJK/LATIN and the next token is not another replaced token (to avoid double spaces)
+      const trailing = spaced && (nextKind === 'CJK' || nextKind === 'LATIN') && !nextIsReplaced;
+      if(run){ out.push(run); run = ''; }
+      out.push({ w: seg.w, entry: seg.entry, pick: picks[i], leading, trailing, index: i, tail });
+      if(tail){ tailAt = i + 1; i++; }
+    } else {
+      run += segText(seg);
+    }
+  }
+  if(run) out.push(run);
+  return out;
+}
@@ -0,0 +1,4 @@
+/*
+DevTools page: only registers the MixEn panel (panel.html / panel.ts)
+*/
+chrome.devtools.panels.create('MixEn', 'icons/icon16.png', 'panel.html');
@@ -0,0 +1,64 @@
+/*
+Messages between content scripts and the background service worker (src/background.ts), which
+owns the dictionary. Content scripts send batches of text and get segmentations back, so no
+frame has to load or parse chunks itself.
+'segmentEn' is the reverse-mode counterpart: English text, looked up in the English headword index.
+`target` names the dataset (core.ts TargetLang) the worker should answer from.
+*/
+import { DictEntry, Plurals, Script, Segment, TargetLang } from './core';
+
+export const DICT_MSG_SOURCE = 'MixEnDict';
+
+export type DictRequest =
+  | { source: typeof DICT_MSG_SOURCE, op: 'segment', texts: string[], script: Script, target: TargetLang }
+  | { source: typeof DICT_MSG_SOURCE, op: 'segmentEn', texts: string[], script: Script }
+  | { source: typeof DICT_MSG_SOURCE, op: 'lookup', words: string[], target: TargetLang }
+  | { source: typeof DICT_MSG_SOURCE, op: 'stats', target?: TargetLang };
+// A request without `source`, for senders that add it; Omit per member so `op` still narrows
+type OmitEach<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+export type DictOp = OmitEach<DictRequest, 'source'>;
+
+export interface DictStats {
+  target: TargetLang;
+  dictSize: number;
+  groupsLoaded: string[];
+  freqTotal: number;
+}
+// words[i] is a flat list of [start, length] pairs of dictionary words in texts[i]; every
+// entry used appears once in `entries`. English only: `plurals` has the irregular plurals of
+// those entries' senses (core.ts agreeNoun)
+export interface SegmentResponse extends DictStats {
+  words: number[][];
+  entries: Record<string, DictEntry>;
+  plurals?: Plurals;
+}
+export interface LookupResponse extends DictStats {
+  entries: Record<string, DictEntry>;
+}
+
+export function encodeSegments(segments: Segment[], entries: Record<string, DictEntry>): number[] {
+  const out: number[] = [];
+  let pos = 0;
+  for(const seg of segments){
+    if(typeof seg === 'string'){ pos += seg.length; continue; }
+    out.push(pos, seg.w.length);
+    entries[seg.w] = seg.entry;
+    pos += seg.w.length;
+  }
+  return out;
+}
+
+// Same shape as segmentChinese: {w, entry} for dictionary words, one-char strings otherwise
+export function decodeSegments(text: string, words: number[], entries: Record<string, DictEntry>): Segment[] {
+  const out: Segment[] = [];
+  let pos = 0;
+  for(let k = 0; k < words.length; k += 2){
+    const start = words[k], len = words[k + 1];
+    for(; pos < start; pos++) out.push(text[pos]);
+    const w = text.slice(start, start + len);
+    out.push({ w, entry: entries[w] });
+    pos = start + len;
+  }
+  for(; pos < text.length; pos++) out.push(text[pos]);
+  return out;
+}
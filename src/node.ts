@@ -0,0 +1,185 @@
+/*
+MixEn Node library
+- Loads a built data directory (index.json + chunks/gN.json or gN.bin) from disk and mixes plain text,
+  Markdown or HTML with the same segmentation, filters, agreement and spacing as the content script.
+- Bundled to dist/mixen.js by tools/build_ts.js; tools/mixen.js is the CLI on top of it.
+*/
+import * as fs from 'fs';
+import * as path from 'path';
+import { Dict, DictEntry, Level, Script, agreeNoun, eligibleTokens, layoutParts, sampleIndices, seededRandom, segmentChinese } from './core';
+import { TrieChunk, groupedPrefixIndex, loadTrie } from './trie';
+export { LEVELS, freqBand, levelWeight, segmentChinese } from './core';
+export { groupedPrefixIndex, isTrieBuffer, loadTrie } from './trie';
+
+export type Format = 'text'|'md'|'html';
+export interface MixOptions {
+  ratio?: number; // fraction of eligible words to replace (default 0.15)
+  onlyNouns?: boolean; // default true
+  level?: Level; // difficulty filter/weighting (default 'all')
+  seed?: string | number; // same seed + same input => same output
+  script?: Script; // headword forms to match (default 'both')
+  format?: Format; // default 'text'
+}
+// One replacement: offsets into the source (`srcStart`/`srcEnd`) and into the output text (`start`/`end`)
+export interface MixSpan {
+  original: string;
+  en: string;
+  py?: string;
+  reason?: string;
+  rule?: string; // agreement applied to `en` (core.ts agreeNoun)
+  srcStart: number;
+  srcEnd: number;
+  start: number;
+  end: number;
+}
+export interface MixResult {
+  text: string;
+  spans: MixSpan[];
+}
+
+export function defaultDataDir(): string {
+  // dist/mixen.js -> extension/data
+  return path.join(__dirname, '..', 'extension', 'data');
+}
+
+// Binary chunks (build_dict.js --format bin) are read through typed arrays, which need the
+// file in its own, aligned ArrayBuffer
+export function readTrieFile(file: string): TrieChunk {
+  const buf = fs.readFileSync(file);
+  return loadTrie(buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.length));
+}
+
+// Reads every chunk eagerly; fine for batch jobs, unlike the lazy per-group loading in the browser
+export function loadDict(dataDir: string = defaultDataDir()): Dict {
+  const index = JSON.parse(fs.readFileSync(path.join(dataDir, 'index.json'), 'utf8'));
+  const entries = new Map<string, DictEntry>();
+  const tries = new Map<string, TrieChunk>();
+  let maxLen = 1;
+  for(const gid of Object.keys(index.groups || {})){
+    const file = path.join(dataDir, 'chunks', index.groups[gid].file);
+    if(file.endsWith('.bin')){
+      const trie = readTrieFile(file);
+      tries.set(gid, trie);
+      if(trie.maxLen > maxLen) maxLen = trie.maxLen;
+      continue;
+    }
+    const chunk = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if(chunk.maxLen && chunk.maxLen > maxLen) maxLen = chunk.maxLen;
+    for(const [w, v] of chunk.entries) entries.set(w, v);
+  }
+  const dict: Dict = { entries, maxLen, freqTotal: index.freqTotal || 0 };
+  if(tries.size) dict.prefix = groupedPrefixIndex(tries);
+  // English data (older indexes have no target); plurals.json is missing when built without WordNet
+  if(!index.target || index.target === 'en'){
+    dict.plurals = index.plurals ? JSON.parse(fs.readFileSync(path.join(dataDir, index.plurals), 'utf8')) : {};
+  }
+  return dict;
+}
+
+// Regions copied verbatim: code, link targets, raw HTML
+const MD_PROTECTED = /^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$|`[^`\n]+`|\]\([^)\n]*\)|<[^>\n]+>|^ {0,3}\[[^\]\n]+\]:.*$/gm;
+// Comments, tags, and the whole content of elements the content script ignores (IGNORED_TAGS)
+const HTML_PROTECTED = /<!--[\s\S]*?-->|<(script|style|noscript|iframe|object|canvas|svg|math|code|kbd|samp|var|pre|textarea|select|option|button|title|head)\b[^>]*>[\s\S]*?<\/\1\s*>|<[^>]+>/gi;
+
+function escHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+interface MixState {
+  dict: Dict;
+  ratio: number;
+  onlyNouns: boolean;
+  level: Level;
+  script: Script;
+  rand: () => number;
+  html: boolean;
+  out: string;
+  spans: MixSpan[];
+}
+
+// Mix one run of plain text that starts at `srcBase` in the source; appends to st.out
+function mixRun(text: string, srcBase: number, st: MixState){
+  const segments = segmentChinese(text, st.dict, st.script);
+  const { tokens, picks, weights } = eligibleTokens(segments, st.onlyNouns, st.level, st.dict.freqTotal);
+  if(tokens.length === 0){ st.out += text; return; }
+  const idxs = sampleIndices(tokens.length, st.ratio, st.rand, st.level !== 'all' ? tokens.map(i => weights[i]) : undefined);
+  const replaceSet = new Set(Array.from(idxs).map(k => tokens[k]));
+  if(st.dict.plurals){
+    for(const i of replaceSet){
+      const agreed = agreeNoun(segments, i, picks[i], st.dict.plurals);
+      if(agreed) picks[i] = agreed;
+    }
+  }
+  let src = srcBase;
+  for(const part of layoutParts(segments, replaceSet, picks)){
+    if(typeof part === 'string'){
+      st.out += part;
+      src += part.length;
+      continue;
+    }
+    const pick = part.pick;
+    const original = part.w + part.tail; // 学生们 -> students
+    const en = pick.en || part.w;
+    const shown = (part.leading ? ' ' : '') + en + (part.trailing ? ' ' : '');
+    if(st.html){
+      const tip = `${en} • ${original}` + (pick.reason ? `\n${pick.reason}` : '') + (pick.rule ? `\n${pick.rule}` : '');
+      st.out += `<span class="mixen-word" data-original="${escHtml(original)}" data-tip="${escHtml(tip)}">`;
+    }
+    const start = st.out.length + (part.leading ? 1 : 0);
+    st.out += st.html ? escHtml(shown) : shown;
+    if(st.html) st.out += '</span>';
+    st.spans.push({
+      original, en, py: part.entry.py, reason: pick.reason || undefined, rule: pick.rule,
+      srcStart: src, srcEnd: src + original.length, start, end: start + en.length
+    });
+    src += original.length;
+  }
+}
+
+export function mix(input: string, dict: Dict, opts: MixOptions = {}): MixResult {
+  const format = opts.format || 'text';
+  const st: MixState = {
+    dict,
+    ratio: opts.ratio ?? 0.15,
+    onlyNouns: opts.onlyNouns ?? true,
+    level: opts.level || 'all',
+    script: opts.script || 'both',
+    rand: opts.seed !== undefined ? seededRandom(opts.seed) : Math.random,
+    html: format === 'html',
+    out: '',
+    spans: []
+  };
+  const protectedRe = format === 'html' ? HTML_PROTECTED : format === 'md' ? MD_PROTECTED : null;
+  if(!protectedRe){
+    mixRun(input, 0, st);
+    return { text: st.out, spans: st.spans };
+  }
+  let last = 0;
+  protectedRe.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while((m = protectedRe.exec(input))){
+    if(m.index > last) mixRun(input.slice(last, m.index), last, st);
+    st.out += m[0];
+    last = m.index + m[0].length;
+    if(m[0].length === 0) protectedRe.lastIndex++;
+  }
+  if(last < input.length) mixRun(input.slice(last), last, st);
+  return { text: st.out, spans: st.spans };
+}
+
+export function mixText(input: string, dict: Dict, opts: MixOptions = {}): MixResult {
+  return mix(input, dict, { ...opts, format: 'text' });
+}
+export function mixMarkdown(input: string, dict: Dict, opts: MixOptions = {}): MixResult {
+  return mix(input, dict, { ...opts, format: 'md' });
+}
+export function mixHtml(input: string, dict: Dict, opts: MixOptions = {}): MixResult {
+  return mix(input, dict, { ...opts, format: 'html' });
+}
+
+export function formatForFile(file: string): Format {
+  const ext = path.extname(file || '').toLowerCase();
+  if(ext === '.html' || ext === '.htm' || ext === '.xhtml') return 'html';
+  if(ext === '.md' || ext === '.markdown') return 'md';
+  return 'text';
+}
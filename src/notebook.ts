@@ -0,0 +1,93 @@
+/*
+Vocabulary notebook (no DOM)
+- Every hovered word is an encounter: the word, what was shown for it, pinyin, the sentence it was
+  in (from the original text node), the page URL/title and a timestamp.
+- Content scripts send encounters and day counters to the service worker, the only writer, so tabs
+  don't overwrite each other. chrome.storage.local holds one key per day (NOTEBOOK_DAY_PREFIX +
+  YYYY-MM-DD) with that day's encounters, and NOTEBOOK_DAYS_KEY with the per-day counts the
+  notebook page charts: words seen, new words, words learned, encounters.
+- Export: Anki-importable TSV (front, back, pinyin, context; one card per word) and JSON.
+*/
+
+export const NOTEBOOK_MSG_SOURCE = 'MixEnNotebook';
+export const NOTEBOOK_DAY_PREFIX = 'notebook:';
+export const NOTEBOOK_DAYS_KEY = 'notebook_days';
+// Oldest days are dropped beyond this many stored encounters (counts are kept)
+export const NOTEBOOK_MAX_ENCOUNTERS = 10000;
+const SENTENCE_MAX = 160; // chars of context kept around the word
+
+export interface Encounter {
+  word: string; // as it appeared on the page
+  key?: string; // vocabulary key when it differs (other script form, English lemma)
+  shown: string;
+  py?: string;
+  sentence: string;
+  url: string;
+  title: string;
+  ts: number;
+  dir?: 'en-zh'; // reverse mode: an English word shown in Chinese
+}
+export interface DayCounts {
+  seen: number; // distinct words shown
+  new: number; // words shown for the first time
+  learned: number; // words that became known
+  encounters: number; // hovered words captured
+}
+export type DayField = keyof DayCounts;
+export type NotebookDays = Record<string, DayCounts>;
+
+export type NotebookRequest =
+  | { source: typeof NOTEBOOK_MSG_SOURCE, op: 'encounter', encounter: Encounter }
+  | { source: typeof NOTEBOOK_MSG_SOURCE, op: 'count', field: DayField, n?: number };
+// A request without `source`, for senders that add it; Omit per member so `op` still narrows
+type OmitEach<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+export type NotebookOp = OmitEach<NotebookRequest, 'source'>;
+
+export const EMPTY_DAY: DayCounts = { seen: 0, new: 0, learned: 0, encounters: 0 };
+
+// Local date, zero-padded so keys sort by date
+export function dayKey(ts: number): string {
+  const d = new Date(ts);
+  const pad = (n: number)=> String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// The sentence of `text` containing [start, start + len), cut to SENTENCE_MAX around the word
+export function sentenceAround(text: string, start: number, len: number): string {
+  const stop = /[。！？；!?;\n]/;
+  let a = start, b = start + len;
+  while(a > 0 && !stop.test(text[a - 1]) && !(text[a - 1] === ' ' && text[a - 2] === '.')) a--;
+  while(b < text.length && !stop.test(text[b]) && !(text[b] === '.' && /\s/.test(text[b + 1] || ' '))) b++;
+  if(b < text.length) b++; // keep the sentence's own punctuation
+  const half = Math.floor((SENTENCE_MAX - len) / 2);
+  if(b - a > SENTENCE_MAX){
+    a = Math.max(a, start - half);
+    b = Math.min(b, a + SENTENCE_MAX);
+  }
+  return text.slice(a, b).replace(/\s+/g, ' ').trim();
+}
+
+// Same quoting as the CSV exports (tools/export_display_list.js, userdict.ts), with tab as the separator
+function tsvEscape(s: string): string {
+  if(/[\t"\n\r]/.test(s)) return '"' + s.replace(/"/g, '""') + '"';
+  return s;
+}
+
+// One card per word, from its latest encounter; the header lines are Anki's import directives
+export function notebookToTsv(encounters: Encounter[]): string {
+  const latest = new Map<string, Encounter>();
+  for(const e of encounters){
+    const k = e.key || e.word;
+    const prev = latest.get(k);
+    if(!prev || e.ts > prev.ts) latest.set(k, e);
+  }
+  const out = ['#separator:tab', '#html:false', '#columns:Front\tBack\tPinyin\tContext'];
+  for(const e of latest.values()){
+    out.push([e.word, e.shown, e.py || '', e.sentence].map(tsvEscape).join('\t'));
+  }
+  return out.join('\n') + '\n';
+}
+
+export function notebookToJson(encounters: Encounter[], days: NotebookDays): string {
+  return JSON.stringify({ exported: new Date().toISOString(), days, encounters }, null, 2);
+}
@@ -0,0 +1,152 @@
+/*
+Notebook page (notebook.html): the encounters the content scripts captured (notebook.ts), daily
+words-seen / words-learned charts, and Anki TSV / JSON export.
+*/
+import { pinyinMarks } from './core';
+import { EMPTY_DAY, Encounter, NOTEBOOK_DAYS_KEY, NOTEBOOK_DAY_PREFIX, NotebookDays, dayKey, notebookToJson, notebookToTsv } from './notebook';
+
+(function(){
+  const CHART_DAYS = 30;
+  const MAX_ROWS = 500; // rows rendered at once; use the filter for the rest
+  const VOCAB_PREFIX = 'vocab:'; // content.ts SRS records
+
+  function getEls(){
+    return {
+      summary: document.getElementById('summary') as HTMLElement,
+      seenChart: document.getElementById('seenChart') as HTMLElement,
+      learnedChart: document.getElementById('learnedChart') as HTMLElement,
+      filter: document.getElementById('filter') as HTMLInputElement,
+      exportTsv: document.getElementById('exportTsv') as HTMLElement,
+      exportJson: document.getElementById('exportJson') as HTMLElement,
+      table: document.getElementById('encounters') as HTMLElement
+    };
+  }
+  type Els = ReturnType<typeof getEls>;
+
+  let encounters: Encounter[] = [];
+  let days: NotebookDays = {};
+
+  function load(els: Els){
+    chrome.storage.local.get(null, (res)=>{
+      encounters = [];
+      let known = 0, learning = 0;
+      for(const k of Object.keys(res || {})){
+        if(k.startsWith(NOTEBOOK_DAY_PREFIX)) encounters.push(...res[k]);
+        else if(k.startsWith(VOCAB_PREFIX)){
+          if(res[k].state === 'known') known++;
+          else if(res[k].state === 'learning') learning++;
+        }
+      }
+      encounters.sort((a, b)=> b.ts - a.ts);
+      days = res[NOTEBOOK_DAYS_KEY] || {};
+      const words = new Set(encounters.map(e => e.key || e.word)).size;
+      els.summary.textContent = `${encounters.length} encounters of ${words} words. Learning ${learning} words, ${known} known.`;
+      renderChart(els.seenChart, 'seen', '#1e88e5');
+      renderChart(els.learnedChart, 'learned', '#43a047');
+      renderTable(els);
+    });
+  }
+
+  // Last CHART_DAYS days, oldest first, as an SVG bar chart
+  function renderChart(box: HTMLElement, field: 'seen' | 'learned', color: string){
+    const W = 600, H = 120, PAD = 18;
+    const list: string[] = [];
+    for(let i = CHART_DAYS - 1; i >= 0; i--) list.push(dayKey(Date.now() - i * 24 * 60 * 60 * 1000));
+    const values = list.map(d => (days[d] || EMPTY_DAY)[field]);
+    const max = Math.max(1, ...values);
+    const bw = W / list.length;
+    const ns = 'http://www.w3.org/2000/svg';
+    const svg = document.createElementNS(ns, 'svg');
+    svg.setAttribute('viewBox', `0 0 ${W} ${H + PAD}`);
+    svg.setAttribute('width', String(W));
+    list.forEach((d, i)=>{
+      const h = Math.round(values[i] / max * H);
+      const rect = document.createElementNS(ns, 'rect');
+      rect.setAttribute('x', String(i * bw + 1));
+      rect.setAttribute('y', String(H - h));
+      rect.setAttribute('width', String(bw - 2));
+      rect.setAttribute('height', String(h));
+      rect.setAttribute('fill', color);
+      const title = document.createElementNS(ns, 'title');
+      title.textContent = `${d}: ${values[i]}`;
+      rect.appendChild(title);
+      svg.appendChild(rect);
+    });
+    const label = (x: number, anchor: string, text: string)=>{
+      const t = document.createElementNS(ns, 'text');
+      t.setAttribute('x', String(x));
+      t.setAttribute('y', String(H + PAD - 4));
+      t.setAttribute('font-size', '11');
+      t.setAttribute('text-anchor', anchor);
+      t.textContent = text;
+      svg.appendChild(t);
+    };
+    label(0, 'start', list[0]);
+    label(W, 'end', `${list[list.length - 1]} (max ${max})`);
+    box.textContent = '';
+    box.appendChild(svg);
+  }
+
+  function filtered(els: Els): Encounter[] {
+    const q = els.filter.value.trim().toLowerCase();
+    if(!q) return encounters;
+    return encounters.filter(e => [e.word, e.key || '', e.shown, e.sentence, e.title].some(s => s.toLowerCase().includes(q)));
+  }
+
+  function renderTable(els: Els){
+    const list = filtered(els);
+    els.table.textContent = '';
+    const head = document.createElement('tr');
+    for(const h of ['When', 'Word', 'Shown', 'Pinyin', 'Context', 'Page']){
+      const th = document.createElement('th'); th.textContent = h; head.appendChild(th);
+    }
+    els.table.appendChild(head);
+    for(const e of list.slice(0, MAX_ROWS)){
+      const tr = document.createElement('tr');
+      const when = new Date(e.ts);
+      for(const v of [`${dayKey(e.ts)} ${when.toTimeString().slice(0, 5)}`, e.word, e.shown, e.py ? pinyinMarks(e.py) : '', e.sentence]){
+        const td = document.createElement('td'); td.textContent = v; tr.appendChild(td);
+      }
+      const td = document.createElement('td');
+      const a = document.createElement('a');
+      a.href = e.url;
+      a.target = '_blank';
+      a.rel = 'noopener';
+      a.textContent = e.title || e.url;
+      td.appendChild(a);
+      tr.appendChild(td);
+      els.table.appendChild(tr);
+    }
+    if(list.length > MAX_ROWS){
+      const tr = document.createElement('tr');
+      const td = document.createElement('td'); td.colSpan = 6;
+      td.textContent = `… ${list.length - MAX_ROWS} more; use the filter`;
+      tr.appendChild(td); els.table.appendChild(tr);
+    }
+  }
+
+  function download(text: string, type: string, name: string){
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = name;
+    a.click();
+    setTimeout(()=> URL.revokeObjectURL(url), 1000);
+  }
+
+  function init(){
+    const els = getEls();
+    load(els);
+    els.filter.addEventListener('input', ()=> renderTable(els));
+    // Exports follow the filter, so a subset can go to its own deck
+    els.exportTsv.addEventListener('click', ()=> download(notebookToTsv(filtered(els)), 'text/tab-separated-values', 'mixen-notebook.tsv'));
+    els.exportJson.addEventListener('click', ()=> download(notebookToJson(filtered(els), days), 'application/json', 'mixen-notebook.json'));
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    chrome.storage.onChanged.addListener((changes, area)=>{
+      if(area !== 'local' || !(NOTEBOOK_DAYS_KEY in changes)) return;
+      clearTimeout(timer);
+      timer = setTimeout(()=> load(els), 500);
+    });
+  }
+  document.addEventListener('DOMContentLoaded', init);
+})();
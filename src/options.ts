@@ -1,59 +1,410 @@
+import { TargetLang, hasCJK, targetDataDir } from './core';
+import { SiteRule, compileSiteRules, patToRegExp, siteDecision, validSelectors } from './patterns';
+import { DEFAULT_SETTINGS, RATIO_MAX, RATIO_MIN, Settings, readSettings, settingsFromJson, settingsToJson, storedSettings, validateSettings } from './settings';
+import { USER_DICT_KEY, UserDict, UserEntry, userDictFromCsv, userDictToCsv } from './userdict';
+
 (function(){
-  const DEFAULTS = {
-    enabled: true,
-    ratio: 0.15,
-    onlyNouns: true,
-    blacklist: [] as string[]
-  } as const;
   function getEls(){
     return {
-      enabled: document.getElementById('enabled'),
-      ratio: document.getElementById('ratio'),
-      ratioVal: document.getElementById('ratioVal'),
+      enabled: document.getElementById('enabled') as HTMLInputElement,
+      direction: document.getElementById('direction') as HTMLSelectElement,
+      target: document.getElementById('target') as HTMLSelectElement,
+      targetNote: document.getElementById('targetNote') as HTMLElement,
+      display: document.getElementById('display') as HTMLSelectElement,
+      rubyText: document.getElementById('rubyText') as HTMLSelectElement,
+      ratio: document.getElementById('ratio') as HTMLInputElement,
+      ratioVal: document.getElementById('ratioVal') as HTMLElement,
       onlyNouns: document.getElementById('onlyNouns') as HTMLInputElement,
-      blacklist: document.getElementById('blacklist'),
-      save: document.getElementById('save'),
-      reset: document.getElementById('reset')
+      phrases: document.getElementById('phrases') as HTMLInputElement,
+      phraseRatio: document.getElementById('phraseRatio') as HTMLInputElement,
+      level: document.getElementById('level') as HTMLSelectElement,
+      blacklist: document.getElementById('blacklist') as HTMLTextAreaElement,
+      allowlistOnly: document.getElementById('allowlistOnly') as HTMLInputElement,
+      rules: document.getElementById('rules') as HTMLElement,
+      addRule: document.getElementById('addRule') as HTMLElement,
+      testUrl: document.getElementById('testUrl') as HTMLInputElement,
+      testResult: document.getElementById('testResult') as HTMLElement,
+      newPerDay: document.getElementById('newPerDay') as HTMLInputElement,
+      script: document.getElementById('script') as HTMLSelectElement,
+      seed: document.getElementById('seed') as HTMLInputElement,
+      consistentWords: document.getElementById('consistentWords') as HTMLInputElement,
+      debugBridge: document.getElementById('debugBridge') as HTMLInputElement,
+      minNodeLen: document.getElementById('minNodeLen') as HTMLInputElement,
+      minChineseRatio: document.getElementById('minChineseRatio') as HTMLInputElement,
+      minEnglishRatio: document.getElementById('minEnglishRatio') as HTMLInputElement,
+      settingsExport: document.getElementById('settingsExport') as HTMLElement,
+      settingsImport: document.getElementById('settingsImport') as HTMLElement,
+      settingsFile: document.getElementById('settingsFile') as HTMLInputElement,
+      settingsStatus: document.getElementById('settingsStatus') as HTMLElement,
+      udZh: document.getElementById('udZh') as HTMLInputElement,
+      udEn: document.getElementById('udEn') as HTMLInputElement,
+      udPy: document.getElementById('udPy') as HTMLInputElement,
+      udPos: document.getElementById('udPos') as HTMLSelectElement,
+      udTag: document.getElementById('udTag') as HTMLSelectElement,
+      udSave: document.getElementById('udSave') as HTMLElement,
+      udCancel: document.getElementById('udCancel') as HTMLElement,
+      udFilter: document.getElementById('udFilter') as HTMLInputElement,
+      udImport: document.getElementById('udImport') as HTMLElement,
+      udFile: document.getElementById('udFile') as HTMLInputElement,
+      udExport: document.getElementById('udExport') as HTMLElement,
+      udStatus: document.getElementById('udStatus') as HTMLElement,
+      udTable: document.getElementById('udTable') as HTMLElement,
+      save: document.getElementById('save') as HTMLElement,
+      reset: document.getElementById('reset') as HTMLElement
     };
   }
-  function readUI(els){
-    const bl = els.blacklist.value.split(/\n+/).map(s=>s.trim()).filter(Boolean);
-    return {
+  type Els = ReturnType<typeof getEls>;
+  // Form values go through the same validation as stored settings (settings.ts)
+  function readUI(els: Els): Settings {
+    const percent = (input: HTMLInputElement)=> parseFloat(input.value) / 100;
+    return validateSettings({
       enabled: !!els.enabled.checked,
-      ratio: Math.max(0.05, Math.min(0.5, (parseInt(els.ratio.value,10)||15)/100)),
+      direction: els.direction.value,
+      target: els.target.value,
+      display: els.display.value,
+      rubyText: els.rubyText.value,
+      ratio: percent(els.ratio),
       onlyNouns: !!els.onlyNouns.checked,
-      blacklist: bl
-    };
+      phrases: !!els.phrases.checked,
+      phraseRatio: percent(els.phraseRatio),
+      level: els.level.value,
+      blacklist: els.blacklist.value.split(/\n+/),
+      siteRules: rules,
+      allowlistOnly: !!els.allowlistOnly.checked,
+      minNodeLen: parseInt(els.minNodeLen.value, 10),
+      minChineseRatio: percent(els.minChineseRatio),
+      minEnglishRatio: percent(els.minEnglishRatio),
+      newPerDay: parseInt(els.newPerDay.value, 10),
+      script: els.script.value,
+      seed: els.seed.value,
+      consistentWords: !!els.consistentWords.checked,
+      debugBridge: !!els.debugBridge.checked
+    }).settings;
+  }
+  function writeUI(els: Els, cfg: Settings){
+    const pct = (v: number)=> String(Math.round(v * 100));
+    els.enabled.checked = cfg.enabled;
+    els.direction.value = cfg.direction;
+    els.target.value = cfg.target;
+    checkTargetData(els);
+    els.display.value = cfg.display;
+    els.rubyText.value = cfg.rubyText;
+    els.ratio.value = pct(cfg.ratio);
+    els.ratioVal.textContent = pct(cfg.ratio) + '%';
+    els.onlyNouns.checked = cfg.onlyNouns;
+    els.phrases.checked = cfg.phrases;
+    els.phraseRatio.value = pct(cfg.phraseRatio);
+    els.level.value = cfg.level;
+    els.blacklist.value = cfg.blacklist.join('\n');
+    els.allowlistOnly.checked = cfg.allowlistOnly;
+    rules = cfg.siteRules.map(r => Object.assign({}, r));
+    renderRules(els);
+    els.minNodeLen.value = String(cfg.minNodeLen);
+    els.minChineseRatio.value = pct(cfg.minChineseRatio);
+    els.minEnglishRatio.value = pct(cfg.minEnglishRatio);
+    els.newPerDay.value = String(cfg.newPerDay);
+    els.script.value = cfg.script;
+    els.seed.value = cfg.seed;
+    els.consistentWords.checked = cfg.consistentWords;
+    els.debugBridge.checked = cfg.debugBridge;
+  }
+  // A dataset is only in the extension when it was built (build_dict.js --target)
+  function checkTargetData(els: Els){
+    const target = els.target.value as TargetLang;
+    const dir = targetDataDir(target);
+    els.targetNote.textContent = '';
+    fetch(chrome.runtime.getURL(dir + 'index.json')).then(res => res.ok ? res.json() : null, ()=> null).then((index)=>{
+      if(els.target.value !== target) return;
+      const groups = index ? Object.values(index.groups || {}) as any[] : [];
+      els.targetNote.textContent = groups.length
+        ? `${groups.reduce((n, g)=> n + g.count, 0)} words in ${dir}.`
+        : `No dictionary in ${dir} yet: run node tools/build_dict.js --target ${target} --source … --dict … and reload the extension.`;
+    });
+  }
+
+  // --- Per-site rules (saved with the other settings) ---
+  let rules: SiteRule[] = [];
+
+  const pct = (v: string, min: number, max: number)=>{
+    const n = parseFloat(v);
+    return isNaN(n) ? undefined : Math.max(min, Math.min(max, n / 100));
+  };
+  const triState = (v: string)=> v === 'on' ? true : v === 'off' ? false : undefined;
+
+  function ruleCell(tr: HTMLElement, input: HTMLElement){
+    const td = document.createElement('td');
+    td.appendChild(input);
+    tr.appendChild(td);
+  }
+  function ruleSelect(value: boolean | undefined, labels: [string, string, string], onChange: (v: boolean | undefined)=>void){
+    const sel = document.createElement('select');
+    ['', 'on', 'off'].forEach((v, i)=>{
+      const o = document.createElement('option'); o.value = v; o.textContent = labels[i]; sel.appendChild(o);
+    });
+    sel.value = value === true ? 'on' : value === false ? 'off' : '';
+    sel.addEventListener('change', ()=> onChange(triState(sel.value)));
+    return sel;
+  }
+  function rulePercent(value: number | undefined, min: number, max: number, onChange: (v: number | undefined)=>void){
+    const input = document.createElement('input');
+    input.type = 'number'; input.min = String(min * 100); input.max = String(max * 100); input.step = '1';
+    input.placeholder = 'global'; input.style.width = '64px';
+    input.value = value != null ? String(Math.round(value * 100)) : '';
+    input.addEventListener('input', ()=> onChange(pct(input.value, min, max)));
+    return input;
+  }
+  function renderRules(els: Els){
+    els.rules.textContent = '';
+    const head = document.createElement('tr');
+    for(const h of ['URL pattern', 'Run', 'Ratio %', 'Nouns only', 'Min. Chinese %', 'Skip selectors (one per line)', '']){
+      const th = document.createElement('th'); th.textContent = h; head.appendChild(th);
+    }
+    els.rules.appendChild(head);
+    rules.forEach((rule, i)=>{
+      const tr = document.createElement('tr');
+      const changed = ()=> testUrl(els);
+      const pattern = document.createElement('input');
+      pattern.type = 'text'; pattern.size = 28; pattern.placeholder = '*://news.example.com/*';
+      pattern.value = rule.pattern || '';
+      const checkPattern = ()=>{ pattern.style.borderColor = pattern.value.trim() && !patToRegExp(pattern.value) ? '#c62828' : ''; };
+      pattern.addEventListener('input', ()=>{ rule.pattern = pattern.value; checkPattern(); changed(); });
+      checkPattern();
+      ruleCell(tr, pattern);
+      ruleCell(tr, ruleSelect(rule.enabled, ['global', 'always', 'never'], v =>{ rule.enabled = v; changed(); }));
+      ruleCell(tr, rulePercent(rule.ratio, RATIO_MIN, RATIO_MAX, v =>{ rule.ratio = v; changed(); }));
+      ruleCell(tr, ruleSelect(rule.onlyNouns, ['global', 'yes', 'no'], v =>{ rule.onlyNouns = v; changed(); }));
+      ruleCell(tr, rulePercent(rule.minChineseRatio, 0, 1, v =>{ rule.minChineseRatio = v; changed(); }));
+      const skip = document.createElement('textarea');
+      skip.rows = 2; skip.style.minHeight = '0'; skip.placeholder = 'nav\n.comments';
+      skip.value = (rule.skip || []).join('\n');
+      const checkSkip = ()=>{
+        const list = skip.value.split(/\n+/).map(s => s.trim()).filter(Boolean);
+        const bad = list.filter(s => !validSelectors([s]).length);
+        skip.title = bad.length ? `Invalid selectors (ignored): ${bad.join(', ')}` : '';
+        skip.style.borderColor = bad.length ? '#c62828' : '';
+      };
+      skip.addEventListener('input', ()=>{ rule.skip = skip.value.split(/\n+/); checkSkip(); changed(); });
+      checkSkip();
+      ruleCell(tr, skip);
+      const del = document.createElement('button'); del.textContent = 'Delete';
+      del.addEventListener('click', ()=>{ rules.splice(i, 1); renderRules(els); });
+      ruleCell(tr, del);
+      els.rules.appendChild(tr);
+    });
+    testUrl(els);
+  }
+
+  // Same decision as the content script (patterns.ts), over the unsaved values on this page
+  function testUrl(els: Els){
+    const url = els.testUrl.value.trim();
+    if(!url){ els.testResult.textContent = ''; return; }
+    const cfg = readUI(els);
+    const blacklistRe = cfg.blacklist.map(patToRegExp).filter(Boolean) as RegExp[];
+    const d = siteDecision(cfg, blacklistRe, compileSiteRules(cfg.siteRules), url);
+    const rule = d.rule && d.rule.rule;
+    const lines = [(d.allowed ? 'Runs: ' : 'Does not run: ') + d.reason];
+    if(d.allowed){
+      const from = (v: any)=> v != null ? ' (rule)' : '';
+      const ratio = rule && rule.ratio != null ? rule.ratio : cfg.ratio;
+      const nouns = rule && rule.onlyNouns != null ? rule.onlyNouns : cfg.onlyNouns;
+      const minCjk = rule && rule.minChineseRatio != null ? rule.minChineseRatio : cfg.minChineseRatio;
+      lines.push(`Ratio ${Math.round(ratio * 100)}%${from(rule && rule.ratio)}, nouns only: ${nouns ? 'yes' : 'no'}${from(rule && rule.onlyNouns)}, min. Chinese ${Math.round(minCjk * 100)}%${from(rule && rule.minChineseRatio)}`);
+      const skip = rule ? validSelectors(rule.skip) : [];
+      if(skip.length) lines.push(`Skips: ${skip.join(', ')}`);
+    }
+    els.testResult.textContent = lines.join('\n');
+  }
+
+  // --- Settings export/import (JSON, settings.ts); an import is saved right away ---
+  function initSettingsFile(els: Els){
+    els.settingsExport.addEventListener('click', ()=>{
+      readSettings().then(({ settings })=>{
+        const url = URL.createObjectURL(new Blob([settingsToJson(settings)], { type: 'application/json' }));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = 'mixen-settings.json';
+        a.click();
+        setTimeout(()=> URL.revokeObjectURL(url), 1000);
+      });
+    });
+    els.settingsImport.addEventListener('click', ()=> els.settingsFile.click());
+    els.settingsFile.addEventListener('change', ()=>{
+      const file = els.settingsFile.files && els.settingsFile.files[0];
+      if(!file) return;
+      file.text().then((text)=>{
+        els.settingsFile.value = '';
+        let result: { settings: Settings, problems: string[] };
+        try{ result = settingsFromJson(text); }
+        catch(err){ els.settingsStatus.textContent = `Not imported: ${(err as Error).message}`; return; }
+        chrome.storage.sync.set(storedSettings(result.settings), ()=>{
+          writeUI(els, result.settings);
+          els.settingsStatus.textContent = 'Imported and saved' + (result.problems.length ? `; invalid values replaced by defaults: ${result.problems.join(', ')}` : '');
+        });
+      });
+    });
+  }
+
+  // --- User dictionary (chrome.storage.local, saved on every change) ---
+  const UD_MAX_ROWS = 500; // rows rendered at once; use the filter for the rest
+  let userDict: UserDict = {};
+  let editing = ''; // zh of the entry loaded into the form
+
+  function saveUserDict(els: Els, status: string){
+    chrome.storage.local.set({ [USER_DICT_KEY]: userDict }, ()=>{
+      els.udStatus.textContent = status;
+      renderUserDict(els);
+    });
+  }
+  function resetUserForm(els: Els){
+    editing = '';
+    els.udZh.value = els.udEn.value = els.udPy.value = '';
+    els.udPos.value = els.udTag.value = '';
+    els.udSave.textContent = 'Add';
+    els.udCancel.hidden = true;
+  }
+  function editUserEntry(els: Els, zh: string){
+    const e = userDict[zh];
+    editing = zh;
+    els.udZh.value = zh;
+    els.udEn.value = e.en.join('; ');
+    els.udPy.value = e.py || '';
+    els.udPos.value = e.pos || '';
+    els.udTag.value = e.tag || '';
+    els.udSave.textContent = 'Update';
+    els.udCancel.hidden = false;
+    els.udZh.focus();
+  }
+  function renderUserDict(els: Els){
+    const q = els.udFilter.value.trim().toLowerCase();
+    const words = Object.keys(userDict).sort().filter(zh => !q || zh.includes(q) || userDict[zh].en.some(en => en.toLowerCase().includes(q)));
+    els.udTable.textContent = '';
+    const head = document.createElement('tr');
+    for(const h of ['Chinese', 'English', 'Pinyin', 'POS', 'Tag', '']){
+      const th = document.createElement('th'); th.textContent = h; head.appendChild(th);
+    }
+    els.udTable.appendChild(head);
+    for(const zh of words.slice(0, UD_MAX_ROWS)){
+      const e = userDict[zh];
+      const tr = document.createElement('tr');
+      for(const v of [zh, e.en.join('; '), e.py || '', e.pos || '', e.tag || '']){
+        const td = document.createElement('td'); td.textContent = v; tr.appendChild(td);
+      }
+      const td = document.createElement('td');
+      const edit = document.createElement('button'); edit.textContent = 'Edit';
+      edit.addEventListener('click', ()=> editUserEntry(els, zh));
+      const del = document.createElement('button'); del.textContent = 'Delete';
+      del.addEventListener('click', ()=>{
+        delete userDict[zh];
+        if(editing === zh) resetUserForm(els);
+        saveUserDict(els, `Deleted ${zh}`);
+      });
+      td.appendChild(edit); td.appendChild(del);
+      tr.appendChild(td);
+      els.udTable.appendChild(tr);
+    }
+    if(words.length > UD_MAX_ROWS){
+      const tr = document.createElement('tr');
+      const td = document.createElement('td'); td.colSpan = 6;
+      td.textContent = `… ${words.length - UD_MAX_ROWS} more; use the filter`;
+      tr.appendChild(td); els.udTable.appendChild(tr);
+    }
   }
-  function writeUI(els, cfg){
-    els.enabled.checked = !!cfg.enabled;
-    const pct = Math.round((cfg.ratio||0.15)*100);
-    els.ratio.value = String(pct);
-    els.ratioVal.textContent = pct + '%';
-    els.onlyNouns.checked = !!cfg.onlyNouns;
-    els.blacklist.value = (cfg.blacklist||[]).join('\n');
+  function saveUserEntry(els: Els){
+    const zh = els.udZh.value.trim();
+    const en = els.udEn.value.split(';').map(s=>s.trim()).filter(Boolean);
+    if(!zh || !en.length){ els.udStatus.textContent = 'Chinese and at least one English sense are required'; return; }
+    if(editing && editing !== zh) delete userDict[editing];
+    const entry: UserEntry = { en };
+    if(els.udPy.value.trim()) entry.py = els.udPy.value.trim();
+    if(els.udPos.value) entry.pos = els.udPos.value;
+    if(els.udTag.value) entry.tag = els.udTag.value;
+    if(userDict[zh] && userDict[zh].proper) entry.proper = true;
+    userDict[zh] = entry;
+    resetUserForm(els);
+    saveUserDict(els, `Saved ${zh}`);
   }
+  function initUserDict(els: Els){
+    chrome.storage.local.get({ [USER_DICT_KEY]: {} }, (res)=>{
+      userDict = res[USER_DICT_KEY] || {};
+      renderUserDict(els);
+    });
+    els.udSave.addEventListener('click', ()=> saveUserEntry(els));
+    els.udCancel.addEventListener('click', ()=> resetUserForm(els));
+    els.udFilter.addEventListener('input', ()=> renderUserDict(els));
+    els.udImport.addEventListener('click', ()=> els.udFile.click());
+    els.udFile.addEventListener('change', ()=>{
+      const file = els.udFile.files && els.udFile.files[0];
+      if(!file) return;
+      file.text().then((text)=>{
+        const { dict, skipped } = userDictFromCsv(text);
+        const n = Object.keys(dict).length;
+        Object.assign(userDict, dict);
+        saveUserDict(els, `Imported ${n} words` + (skipped ? `, skipped ${skipped} rows without zh/en` : ''));
+        els.udFile.value = '';
+      });
+    });
+    els.udExport.addEventListener('click', ()=>{
+      const url = URL.createObjectURL(new Blob([userDictToCsv(userDict)], { type: 'text/csv' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'mixen-user-dict.csv';
+      a.click();
+      setTimeout(()=> URL.revokeObjectURL(url), 1000);
+    });
+  }
+
+  // "Add selection to my dictionary" (context menu) opens options.html#add=<selection>
+  function prefillFromHash(els: Els){
+    const m = /^#add=(.*)$/.exec(location.hash);
+    if(!m) return;
+    const text = decodeURIComponent(m[1]).trim();
+    history.replaceState(null, '', location.pathname);
+    if(!text) return;
+    resetUserForm(els);
+    const cjk = hasCJK(text);
+    if(cjk) els.udZh.value = text; else els.udEn.value = text;
+    const focus = cjk ? els.udEn : els.udZh;
+    focus.scrollIntoView({ block: 'center' });
+    focus.focus();
+  }
+
   function load(){
     const els = getEls();
-    chrome.storage.sync.get(DEFAULTS, (cfg)=>{
-      cfg = Object.assign({}, DEFAULTS, cfg);
-      writeUI(els, cfg);
+    initUserDict(els);
+    prefillFromHash(els);
+    readSettings().then(({ settings, problems })=>{
+      writeUI(els, settings);
+      if(problems.length) els.settingsStatus.textContent = `Invalid saved values reset to defaults: ${problems.join(', ')}`;
     });
+    els.target.addEventListener('change', ()=> checkTargetData(els));
     els.ratio.addEventListener('input', ()=>{
       els.ratioVal.textContent = els.ratio.value + '%';
+      testUrl(els);
+    });
+    els.addRule.addEventListener('click', ()=>{
+      rules.push({ pattern: '' });
+      renderRules(els);
+      const inputs = els.rules.querySelectorAll('input[type="text"]');
+      if(inputs.length) (inputs[inputs.length - 1] as HTMLInputElement).focus();
     });
+    for(const el of [els.testUrl, els.blacklist, els.allowlistOnly, els.enabled, els.onlyNouns, els.minChineseRatio]){
+      el.addEventListener('input', ()=> testUrl(els));
+      el.addEventListener('change', ()=> testUrl(els));
+    }
     els.save.addEventListener('click', ()=>{
       const cfg = readUI(els);
-      chrome.storage.sync.set(cfg, ()=>{
+      chrome.storage.sync.set(storedSettings(cfg), ()=>{
+        writeUI(els, cfg); // shows what was clamped
         els.save.textContent = 'Saved';
         setTimeout(()=>{ els.save.textContent = 'Save'; }, 800);
       });
     });
     els.reset.addEventListener('click', ()=>{
-      chrome.storage.sync.set(DEFAULTS, ()=>{
-        writeUI(els, DEFAULTS);
+      chrome.storage.sync.set(storedSettings(DEFAULT_SETTINGS), ()=>{
+        writeUI(els, DEFAULT_SETTINGS);
       });
     });
+    initSettingsFile(els);
   }
   document.addEventListener('DOMContentLoaded', load);
 })();
@@ -0,0 +1,137 @@
+/*
+MixEn DevTools panel (registered by devtools.ts)
+- Lists the replaced words of the inspected tab's top frame: original, shown sense, why that sense,
+  and the segmentation around it. Hovering a row highlights the word on the page; clicking selects
+  it in Elements.
+- Shows the frame's stats and the dictionary groups the service worker has loaded.
+- "Re-run" marks the element selected in Elements ($0); the content script puts it back to the
+  original text, mixes it again and reports the segmentation of each text node.
+- Commands go through the service worker to the tab, not through page-visible messaging.
+*/
+(function(){
+  const PANEL_MSG_SOURCE = 'MixEnPanel'; // same string in background.ts
+  const SPAN_SELECTOR = 'span.mixen-word[data-original]';
+  const tabId = chrome.devtools.inspectedWindow.tabId;
+
+  function getEls(){
+    return {
+      refresh: document.getElementById('refresh') as HTMLButtonElement,
+      resegment: document.getElementById('resegment') as HTMLButtonElement,
+      status: document.getElementById('status') as HTMLElement,
+      stats: document.getElementById('stats') as HTMLElement,
+      resegmentOut: document.getElementById('resegmentOut') as HTMLElement,
+      resegmentText: document.getElementById('resegmentText') as HTMLElement,
+      spans: document.getElementById('spans') as HTMLElement
+    };
+  }
+  type Els = ReturnType<typeof getEls>;
+  // The content script's reply to 'inspect' (inspectSpans)
+  interface PageStats { nodes?: number, tokens?: number, replaced?: number, dictSize?: number, groupsLoaded?: string[] }
+  interface SpanInfo { index: number, original: string, shown: string, key: string, reason: string, context: string }
+  interface InspectInfo { url: string, allowed: boolean, paused: boolean, site: string, pageScript: string, stats?: PageStats, spans: SpanInfo[] }
+
+  function send(cmd: string, arg?: any): Promise<any> {
+    return new Promise((resolve)=>{
+      chrome.runtime.sendMessage({ source: PANEL_MSG_SOURCE, tabId, cmd, arg }, (res)=>{
+        void chrome.runtime.lastError;
+        resolve(res || null);
+      });
+    });
+  }
+
+  function row(cells: string[], tag = 'td'): HTMLTableRowElement {
+    const tr = document.createElement('tr');
+    for(const text of cells){
+      const c = document.createElement(tag);
+      c.textContent = text;
+      tr.appendChild(c);
+    }
+    return tr;
+  }
+
+  function renderStats(els: Els, info: InspectInfo){
+    const st: PageStats = info.stats || {};
+    const rows = [
+      ['URL', info.url],
+      ['Running', info.allowed ? (info.paused ? 'paused (reverted)' : 'yes') : 'no'],
+      ['Site', info.site],
+      ['Chinese script', info.pageScript],
+      ['Text nodes', st.nodes],
+      ['Eligible tokens', st.tokens],
+      ['Replaced', st.replaced],
+      ['Dictionary size', st.dictSize],
+      ['Groups loaded', (st.groupsLoaded || []).length + (st.groupsLoaded && st.groupsLoaded.length ? ` (${st.groupsLoaded.join(', ')})` : '')]
+    ];
+    els.stats.textContent = '';
+    for(const [k, v] of rows){
+      const tr = document.createElement('tr');
+      const th = document.createElement('th'); th.textContent = String(k);
+      const td = document.createElement('td'); td.textContent = String(v ?? 0);
+      tr.appendChild(th); tr.appendChild(td);
+      els.stats.appendChild(tr);
+    }
+  }
+
+  function renderSpans(els: Els, spans: SpanInfo[]){
+    els.spans.textContent = '';
+    els.spans.appendChild(row(['#', 'Original', 'Shown', 'Reason', 'Segmentation'], 'th'));
+    for(const sp of spans){
+      const tr = row([String(sp.index + 1), sp.original, sp.shown, sp.reason, sp.context]);
+      (tr.lastChild as HTMLElement).className = 'ctx';
+      tr.title = sp.key !== sp.original ? `Vocabulary key: ${sp.key}` : '';
+      tr.addEventListener('mouseenter', ()=> send('inspectHighlight', sp.index));
+      tr.addEventListener('mouseleave', ()=> send('inspectHighlight', -1));
+      tr.addEventListener('click', ()=>{
+        chrome.devtools.inspectedWindow.eval(`inspect(document.querySelectorAll(${JSON.stringify(SPAN_SELECTOR)})[${sp.index}])`);
+      });
+      els.spans.appendChild(tr);
+    }
+  }
+
+  async function refresh(els: Els){
+    const info: InspectInfo & { error?: string } | null = await send('inspect');
+    if(!info || info.error){
+      els.status.textContent = (info && info.error) || 'MixEn is not running in this tab.';
+      els.stats.textContent = '';
+      els.spans.textContent = '';
+      return;
+    }
+    els.status.textContent = `${info.spans.length} replaced words`;
+    renderStats(els, info);
+    renderSpans(els, info.spans);
+  }
+
+  function resegment(els: Els){
+    // Runs in the page with the console API ($0); only the attribute crosses to the content script
+    const mark = `(function(el){ if(!el || el.nodeType !== 1) return false; el.setAttribute('data-mixen-target', ''); return true; })($0)`;
+    chrome.devtools.inspectedWindow.eval(mark, async (ok: boolean, exc: any)=>{
+      if(exc || !ok){ els.status.textContent = 'Select an element in the Elements panel first.'; return; }
+      const res = await send('resegment');
+      if(!res || res.error){ els.status.textContent = res ? res.error : 'MixEn is not running in this tab.'; return; }
+      const lines: string[] = [];
+      for(const n of res.nodes){
+        lines.push(n.text.trim());
+        lines.push('  ' + n.segments.join('|'));
+        lines.push('  replaced: ' + (n.replaced.length ? n.replaced.join(', ') : '(none)'));
+      }
+      if(!res.nodes.length) lines.push('No text in this element passes the filters.');
+      if(res.skipped) lines.push(`${res.skipped} text nodes skipped (filters or limit)`);
+      els.resegmentText.textContent = lines.join('\n');
+      els.resegmentOut.hidden = false;
+      refresh(els);
+    });
+  }
+
+  function load(){
+    const els = getEls();
+    els.refresh.addEventListener('click', ()=> refresh(els));
+    els.resegment.addEventListener('click', ()=> resegment(els));
+    // Words keep being replaced as the page scrolls; a new page starts over
+    chrome.devtools.network.onNavigated.addListener(()=>{
+      els.resegmentOut.hidden = true;
+      setTimeout(()=> refresh(els), 1500);
+    });
+    refresh(els);
+  }
+  document.addEventListener('DOMContentLoaded', load);
+})();
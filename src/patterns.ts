@@ -0,0 +1,79 @@
+/*
+URL pattern matching (wildcards) shared by the content script, the popup and the options page.
+Patterns support '*' (any chars) and '?' (single char), case-insensitive, matched against the full URL.
+Lines starting with '#' are comments.
+Per-site rules (overrides for matching URLs) and the allow/deny decision live here too, so the
+options page's URL tester gives the same answer as the content script.
+*/
+export function escapeRe(s: string){ return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); }
+
+export function patToRegExp(pat: string): RegExp | null {
+  const raw = (pat||'').trim();
+  if(!raw || raw.startsWith('#')) return null;
+  // Convert simple wildcards to regex, match full URL (case-insensitive)
+  const escaped = escapeRe(raw).replace(/\\\*/g, '.*').replace(/\\\?/g, '.');
+  try{ return new RegExp('^' + escaped + '$', 'i'); }catch{ return null; }
+}
+
+export function urlMatchesAny(reList: RegExp[], url: string): boolean {
+  for(const re of reList){ if(re.test(url)) return true; }
+  return false;
+}
+
+// Pattern that covers every page of the URL's host, any scheme
+export function sitePattern(url: string): string {
+  try { return `*://${new URL(url).hostname}/*`; } catch { return ''; }
+}
+
+// --- Per-site rules ---
+// A rule pairs a URL pattern with overrides; fields left out inherit the global settings.
+// `skip`: CSS selectors whose text is never touched on matching pages (nav bars, headlines...).
+export interface SiteRule {
+  pattern: string;
+  enabled?: boolean;
+  ratio?: number;
+  onlyNouns?: boolean;
+  minChineseRatio?: number;
+  skip?: string[];
+}
+export interface CompiledRule { rule: SiteRule, index: number, re: RegExp, literal: number }
+
+export function compileSiteRules(rules: SiteRule[]): CompiledRule[] {
+  const out: CompiledRule[] = [];
+  (Array.isArray(rules) ? rules : []).forEach((rule, index)=>{
+    const re = rule && patToRegExp(rule.pattern);
+    if(re) out.push({ rule, index, re, literal: rule.pattern.trim().replace(/[*?]/g, '').length });
+  });
+  return out;
+}
+
+// The most specific matching rule wins (most non-wildcard characters); ties go to the earlier rule
+export function matchSiteRule(compiled: CompiledRule[], url: string): CompiledRule | null {
+  let best: CompiledRule | null = null;
+  for(const c of compiled){
+    if(c.re.test(url) && (!best || c.literal > best.literal)) best = c;
+  }
+  return best;
+}
+
+export interface SiteDecision { allowed: boolean, rule: CompiledRule | null, reason: string }
+// Global switch, then the blacklist, then the winning rule's enabled flag, then allowlist-only mode
+export function siteDecision(cfg: { enabled?: boolean, allowlistOnly?: boolean }, blacklistRe: RegExp[], compiled: CompiledRule[], url: string): SiteDecision {
+  const rule = matchSiteRule(compiled, url);
+  const which = rule ? `rule ${rule.index + 1} (${rule.rule.pattern})` : '';
+  if(!cfg.enabled) return { allowed: false, rule, reason: 'MixEn is switched off' };
+  const bl = blacklistRe.find(re => re.test(url));
+  if(bl) return { allowed: false, rule, reason: 'disabled by a blacklist pattern' };
+  if(rule && rule.rule.enabled === false) return { allowed: false, rule, reason: `disabled by ${which}` };
+  if(cfg.allowlistOnly && !(rule && rule.rule.enabled === true)) return { allowed: false, rule, reason: 'allowlist only, and no rule enables this URL' };
+  return { allowed: true, rule, reason: rule ? `enabled, ${which} applies` : 'enabled, global settings apply' };
+}
+
+// Selectors that don't parse are dropped, so one typo doesn't disable the whole list
+export function validSelectors(list: string[] | undefined): string[] {
+  const frag = document.createDocumentFragment();
+  return (list || []).map(s => (s || '').trim()).filter(s => {
+    if(!s) return false;
+    try{ frag.querySelector(s); return true; }catch{ return false; }
+  });
+}
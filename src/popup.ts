@@ -0,0 +1,143 @@
+import { patToRegExp, sitePattern } from './patterns';
+
+(function(){
+  function getEls(){
+    return {
+      host: document.getElementById('host') as HTMLElement,
+      siteEnabled: document.getElementById('siteEnabled') as HTMLInputElement,
+      globalNote: document.getElementById('globalNote') as HTMLElement,
+      siteNote: document.getElementById('siteNote') as HTMLElement,
+      ratio: document.getElementById('ratio') as HTMLInputElement,
+      ratioVal: document.getElementById('ratioVal') as HTMLElement,
+      reshuffle: document.getElementById('reshuffle') as HTMLButtonElement,
+      revert: document.getElementById('revert') as HTMLButtonElement,
+      stats: document.getElementById('stats') as HTMLElement,
+      unavailable: document.getElementById('unavailable') as HTMLElement,
+      controls: document.getElementById('controls') as HTMLElement,
+      options: document.getElementById('options') as HTMLElement,
+      notebook: document.getElementById('notebook') as HTMLElement
+    };
+  }
+  type Els = ReturnType<typeof getEls>;
+  // The content script's statsSnapshot()
+  interface PageStats { nodes?: number, tokens?: number, replaced?: number, dictSize?: number, groupsLoaded?: string[] }
+
+  let tabId: number | null = null;
+  let tabUrl = '';
+  let siteRatio = false; // a site rule sets this page's ratio: the slider doesn't touch the global one
+
+  // Top frame answers queries; actions go to every frame of the tab (all_frames content scripts)
+  function send(cmd: string, arg?: any, topOnly = false): Promise<any> {
+    return new Promise((resolve)=>{
+      if(tabId == null) return resolve(null);
+      const msg = { source: 'MixEnCmd', cmd, arg };
+      const done = (res: any)=>{ void chrome.runtime.lastError; resolve(res || null); };
+      if(topOnly) chrome.tabs.sendMessage(tabId, msg, { frameId: 0 }, done);
+      else chrome.tabs.sendMessage(tabId, msg, done);
+    });
+  }
+
+  function matchingPatterns(blacklist: string[], url: string): string[] {
+    return blacklist.filter(p => { const re = patToRegExp(p); return !!re && re.test(url); });
+  }
+
+  function renderStats(els: Els, st: PageStats){
+    const rows = [
+      ['Text nodes', st.nodes],
+      ['Eligible tokens', st.tokens],
+      ['Replaced', st.replaced],
+      ['Dictionary size', st.dictSize],
+      ['Groups loaded', (st.groupsLoaded || []).length + (st.groupsLoaded && st.groupsLoaded.length ? ` (${st.groupsLoaded.join(', ')})` : '')]
+    ];
+    els.stats.innerHTML = '';
+    for(const [k, v] of rows){
+      const tr = document.createElement('tr');
+      const th = document.createElement('th'); th.textContent = String(k);
+      const td = document.createElement('td'); td.textContent = String(v ?? 0);
+      tr.appendChild(th); tr.appendChild(td);
+      els.stats.appendChild(tr);
+    }
+  }
+
+  async function refresh(els: Els){
+    const status = await send('status', undefined, true);
+    if(!status){
+      els.unavailable.hidden = false;
+      els.controls.hidden = true;
+      return;
+    }
+    els.unavailable.hidden = true;
+    els.controls.hidden = false;
+    tabUrl = status.url;
+    try { els.host.textContent = new URL(tabUrl).hostname || tabUrl; } catch { els.host.textContent = tabUrl; }
+    renderStats(els, status.stats || {});
+    els.revert.textContent = status.paused ? 'Reverted' : 'Revert all';
+    els.revert.disabled = !!status.paused || !status.allowed;
+    els.reshuffle.disabled = !status.allowed;
+    siteRatio = !!status.siteRatio;
+    // Rules and allowlist-only mode can decide besides the blacklist checkbox
+    const ruleNote = status.siteRule ? `Site rule ${status.siteRule} applies.` : '';
+    els.siteNote.textContent = !status.allowed && status.siteReason ? `Not running: ${status.siteReason}.` : ruleNote;
+    els.siteNote.hidden = !els.siteNote.textContent;
+    els.ratioVal.title = siteRatio ? 'Set by a site rule; changes last until the page reloads' : '';
+    if(document.activeElement !== els.ratio){
+      const pct = Math.round((status.ratio || 0.15) * 100);
+      els.ratio.value = String(pct);
+      els.ratioVal.textContent = pct + '%' + (siteRatio ? ' (site rule)' : '');
+    }
+    chrome.storage.sync.get({ enabled: true, blacklist: [] }, (cfg)=>{
+      els.siteEnabled.checked = matchingPatterns(cfg.blacklist || [], tabUrl).length === 0;
+      els.globalNote.hidden = !!cfg.enabled;
+    });
+  }
+
+  // Disabling adds a host pattern; enabling removes every pattern that matches this URL
+  function setSiteEnabled(enabled: boolean, done: ()=>void){
+    chrome.storage.sync.get({ blacklist: [] }, (cfg)=>{
+      let bl: string[] = (cfg.blacklist || []).slice();
+      if(enabled){
+        const hits = matchingPatterns(bl, tabUrl);
+        bl = bl.filter(p => !hits.includes(p));
+      } else {
+        const pat = sitePattern(tabUrl);
+        if(pat && !bl.includes(pat)) bl.push(pat);
+      }
+      chrome.storage.sync.set({ blacklist: bl }, done);
+    });
+  }
+
+  function load(){
+    const els = getEls();
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs)=>{
+      tabId = tabs && tabs[0] && tabs[0].id != null ? tabs[0].id : null;
+      refresh(els);
+    });
+    els.siteEnabled.addEventListener('change', ()=>{
+      setSiteEnabled(els.siteEnabled.checked, ()=> setTimeout(()=> refresh(els), 300));
+    });
+    els.ratio.addEventListener('input', ()=>{
+      els.ratioVal.textContent = els.ratio.value + '%' + (siteRatio ? ' (site rule)' : '');
+      send('setRatio', parseInt(els.ratio.value, 10) / 100);
+    });
+    els.ratio.addEventListener('change', ()=>{
+      if(siteRatio) return;
+      chrome.storage.sync.set({ ratio: parseInt(els.ratio.value, 10) / 100 });
+    });
+    els.reshuffle.addEventListener('click', ()=>{
+      send('reshuffle').then(()=> setTimeout(()=> refresh(els), 400));
+    });
+    els.revert.addEventListener('click', ()=>{
+      send('revertAll').then(()=> refresh(els));
+    });
+    els.options.addEventListener('click', (ev)=>{
+      ev.preventDefault();
+      chrome.runtime.openOptionsPage();
+    });
+    els.notebook.addEventListener('click', (ev)=>{
+      ev.preventDefault();
+      chrome.tabs.create({ url: chrome.runtime.getURL('notebook.html') });
+    });
+    setInterval(()=> refresh(els), 1000);
+  }
+  document.addEventListener('DOMContentLoaded', load);
+})();
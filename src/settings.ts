@@ -0,0 +1,205 @@
+/*
+Settings schema shared by the content script, the options page, the popup and the service worker
+- DEFAULT_SETTINGS is the one list of fields; SCHEMA says what each may hold. Stored values
+  (chrome.storage.sync) that are missing, of the wrong type or out of range fall back to the default
+  or are clamped, so a bad sync or a hand-edited import can't break a page.
+- Stored settings carry `settingsVersion`; MIGRATIONS bring older layouts up to date on load, and the
+  service worker writes the migrated settings back once after an update.
+- Import/export is the stored object as JSON (options page).
+*/
+import { Direction, Level, TARGET_LANGS, TargetLang } from './core';
+import { SiteRule } from './patterns';
+
+// How a picked word is shown: 'replace' swaps it for the other language; 'annotate' keeps it with
+// the translation (or pinyin) as <ruby> text above; 'bilingual' shows 中文(English); 'cloze' shows
+// 中文(____) to be answered or revealed.
+export type DisplayMode = 'replace'|'annotate'|'bilingual'|'cloze';
+
+export const SETTINGS_VERSION = 1;
+export const RATIO_MIN = 0.05, RATIO_MAX = 0.5;
+
+export const DEFAULT_SETTINGS = {
+  enabled: true,
+  direction: 'zh-en' as Direction, // 'zh-en': English into Chinese pages; 'en-zh': Chinese into English pages
+  target: 'en' as TargetLang, // language mixed into Chinese pages: which data/ set to load (core.ts TARGET_LANGS)
+  ratio: 0.15, // 15% of eligible tokens
+  // Phrase mode: set phrases, proper nouns and chengyu shown as several English words, at their
+  // own ratio of the words that have such a sense (core.ts phraseTokens)
+  phrases: false,
+  phraseRatio: 0.1,
+  display: 'replace' as DisplayMode,
+  rubyText: 'translation', // annotate mode: 'translation' | 'pinyin' (of the Chinese word)
+  onlyNouns: true, // replace nouns only (POS if available; fallback heuristic)
+  level: 'all' as Level, // 'all' | 'beginner' | 'intermediate' | 'academic' (core.ts LEVEL_WEIGHTS)
+  // URL blacklist with wildcards. Default is ON for all pages; any matching pattern disables.
+  // Patterns support '*' (any chars) and '?' (single char), case-insensitive, matched against full URL.
+  blacklist: [] as string[],
+  // Per-site rules (patterns.ts SiteRule): the most specific matching pattern overrides enabled,
+  // ratio, onlyNouns and minChineseRatio, and adds CSS selectors whose text is never touched
+  siteRules: [] as SiteRule[],
+  allowlistOnly: false, // only run on pages a rule enables
+  minNodeLen: 4, // skip very short nodes (chars)
+  minChineseRatio: 0.3, // only process node if >=30% CJK
+  minEnglishRatio: 0.6, // reverse mode: only process node if >=60% Latin letters
+  newPerDay: 20, // cap on never-seen words introduced per day (SRS)
+  script: 'auto', // 'auto' | 'simp' | 'trad' | 'both': which headword forms to match
+  seed: '', // replacement seed; empty = derived from URL + date
+  consistentWords: false, // once a word is replaced on a page, replace every occurrence the same way
+  // Page console control: window.MixEn and postMessage({source:'MixEnCmd'}) from the page. Off by
+  // default since any script on the page could use it; the DevTools panel needs no bridge.
+  debugBridge: false
+};
+export type Settings = typeof DEFAULT_SETTINGS;
+export type SettingKey = keyof Settings;
+
+type Rule =
+  | { kind: 'bool' }
+  | { kind: 'number', min: number, max: number, int?: boolean }
+  | { kind: 'enum', values: string[] }
+  | { kind: 'string' }
+  | { kind: 'list' }
+  | { kind: 'rules' };
+
+const SCHEMA: Record<SettingKey, Rule> = {
+  enabled: { kind: 'bool' },
+  direction: { kind: 'enum', values: ['zh-en', 'en-zh'] },
+  target: { kind: 'enum', values: Object.keys(TARGET_LANGS) },
+  ratio: { kind: 'number', min: RATIO_MIN, max: RATIO_MAX },
+  phrases: { kind: 'bool' },
+  phraseRatio: { kind: 'number', min: RATIO_MIN, max: RATIO_MAX },
+  display: { kind: 'enum', values: ['replace', 'annotate', 'bilingual', 'cloze'] },
+  rubyText: { kind: 'enum', values: ['translation', 'pinyin'] },
+  onlyNouns: { kind: 'bool' },
+  level: { kind: 'enum', values: ['all', 'beginner', 'intermediate', 'academic'] },
+  blacklist: { kind: 'list' },
+  siteRules: { kind: 'rules' },
+  allowlistOnly: { kind: 'bool' },
+  minNodeLen: { kind: 'number', min: 1, max: 100, int: true },
+  minChineseRatio: { kind: 'number', min: 0, max: 1 },
+  minEnglishRatio: { kind: 'number', min: 0, max: 1 },
+  newPerDay: { kind: 'number', min: 0, max: 200, int: true },
+  script: { kind: 'enum', values: ['auto', 'simp', 'trad', 'both'] },
+  seed: { kind: 'string' },
+  consistentWords: { kind: 'bool' },
+  debugBridge: { kind: 'bool' }
+};
+
+// MIGRATIONS[n] turns version n settings into version n + 1
+const MIGRATIONS: ((raw: any) => any)[] = [
+  // 0 -> 1: unversioned settings. Older option pages could store the blacklist as the raw textarea
+  // string and the ratio as a percentage.
+  (raw)=>{
+    if(typeof raw.blacklist === 'string') raw.blacklist = raw.blacklist.split(/\n+/);
+    if(typeof raw.ratio === 'number' && raw.ratio > 1) raw.ratio = raw.ratio / 100;
+    return raw;
+  }
+];
+
+export function migrateSettings(stored: any): any {
+  let raw = Object.assign({}, stored);
+  const from = Number.isInteger(raw.settingsVersion) ? raw.settingsVersion : 0;
+  for(let v = Math.max(0, from); v < MIGRATIONS.length; v++) raw = MIGRATIONS[v](raw);
+  raw.settingsVersion = SETTINGS_VERSION;
+  return raw;
+}
+
+function checkRules(value: any): { value: SiteRule[], ok: boolean } {
+  if(!Array.isArray(value)) return { value: [], ok: false };
+  let ok = true;
+  const out: SiteRule[] = [];
+  for(const r of value){
+    const pattern = r && typeof r.pattern === 'string' ? r.pattern.trim() : '';
+    if(!pattern){ if(r && r.pattern !== '') ok = false; continue; }
+    // Unset overrides are left out so the rule inherits the global value
+    const rule: SiteRule = { pattern };
+    for(const k of ['enabled', 'onlyNouns'] as const){
+      if(typeof r[k] === 'boolean') rule[k] = r[k];
+      else if(r[k] != null) ok = false;
+    }
+    for(const k of ['ratio', 'minChineseRatio'] as const){
+      if(r[k] == null) continue;
+      const v = check(k, r[k]);
+      rule[k] = v.value as number;
+      ok = ok && v.ok;
+    }
+    if(r.skip != null){
+      const skip = check('blacklist', r.skip);
+      if(skip.value.length) rule.skip = skip.value as string[];
+      ok = ok && skip.ok;
+    }
+    out.push(rule);
+  }
+  return { value: out, ok };
+}
+
+function check<K extends SettingKey>(key: K, value: any): { value: Settings[K], ok: boolean } {
+  const rule = SCHEMA[key];
+  const def = DEFAULT_SETTINGS[key];
+  let v: any = def, ok = false;
+  switch(rule.kind){
+    case 'bool': if(typeof value === 'boolean'){ v = value; ok = true; } break;
+    case 'string': if(typeof value === 'string'){ v = value.trim(); ok = true; } break;
+    case 'enum': if(rule.values.includes(value)){ v = value; ok = true; } break;
+    case 'number': {
+      const n = typeof value === 'number' ? value : NaN;
+      if(isFinite(n)){
+        v = Math.max(rule.min, Math.min(rule.max, rule.int ? Math.round(n) : n));
+        ok = v === n;
+      }
+      break;
+    }
+    case 'list':
+      if(Array.isArray(value)){
+        v = value.filter(s => typeof s === 'string').map(s => s.trim()).filter(Boolean);
+        ok = value.every(s => typeof s === 'string');
+      }
+      break;
+    case 'rules': ({ value: v, ok } = checkRules(value)); break;
+  }
+  return { value: v, ok };
+}
+
+// One field: the value if valid, clamped if out of range, the default otherwise
+export function validSetting<K extends SettingKey>(key: K, value: any): Settings[K] {
+  return check(key, value).value;
+}
+
+// Stored (or imported) object -> complete settings; `problems` names the fields that were replaced
+export function validateSettings(stored: any): { settings: Settings, problems: string[] } {
+  const raw = migrateSettings(stored && typeof stored === 'object' ? stored : {});
+  const settings = {} as Settings;
+  const problems: string[] = [];
+  for(const key of Object.keys(DEFAULT_SETTINGS) as SettingKey[]){
+    if(!(key in raw)){ (settings as any)[key] = DEFAULT_SETTINGS[key]; continue; }
+    const r = check(key, raw[key]);
+    (settings as any)[key] = r.value;
+    if(!r.ok) problems.push(key);
+  }
+  return { settings, problems };
+}
+
+// What goes into chrome.storage.sync (and export files)
+export function storedSettings(settings: Settings): Settings & { settingsVersion: number } {
+  return Object.assign({ settingsVersion: SETTINGS_VERSION }, settings);
+}
+
+export function settingsToJson(settings: Settings): string {
+  return JSON.stringify(storedSettings(settings), null, 2);
+}
+
+export function settingsFromJson(text: string): { settings: Settings, problems: string[] } {
+  let raw: any;
+  try{ raw = JSON.parse(text); }catch{ throw new Error('not a JSON file'); }
+  if(!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('not a MixEn settings object');
+  if(raw.settingsVersion > SETTINGS_VERSION) throw new Error(`settings version ${raw.settingsVersion} is newer than this MixEn (${SETTINGS_VERSION})`);
+  return validateSettings(raw);
+}
+
+export function readSettings(): Promise<{ settings: Settings, problems: string[], version: number }> {
+  return new Promise((resolve)=>{
+    chrome.storage.sync.get(null, (res)=>{
+      const r = validateSettings(res || {});
+      resolve(Object.assign(r, { version: Number.isInteger(res && res.settingsVersion) ? res.settingsVersion : 0 }));
+    });
+  });
+}
@@ -0,0 +1,148 @@
+/*
+Binary trie chunk format ("MXT1"), read from an ArrayBuffer without building a Map
+- Written by tools/trie_writer.js (`build_dict.js --format bin`); one file per group, like gN.json.
+- A trie over UTF-16 code units, so a prefix walk from any position of a JS string finds every
+  dictionary word starting there in one pass (segmentation), instead of maxLen slice + Map lookups.
+- All sections are 4-byte aligned and read through typed arrays (little-endian).
+
+Layout:
+  header   8 x u32: magic "MXT1", nodeCount, edgeCount, valueWords, stringCount, stringBytes,
+           maxLen, entryCount
+  nodes    nodeCount x 3 u32: first edge, edge count, value offset + 1 (0 = no word ends here);
+           node 0 is the root
+  edgeKeys edgeCount u32 (code unit per edge, sorted within a node for binary search)
+  edgeKids edgeCount u32 (child node per edge)
+  values   valueWords u32; one record per word: f, mask, then string indices for the fields
+           present, in order: py, tag, pos, trad, simp, en[n], cx[n], then for phrase senses a
+           count m (a number, not a string index), m x (ph, pht), lit, fig ('' when absent)
+           mask: 1 py, 2 tag, 4 pos, 8 trad, 16 simp, 32 proper, 64 cx, 128 ph; bits 8-15 = n senses
+  strings  (stringCount + 1) u32 byte offsets, then UTF-8 bytes (padded to 4)
+*/
+import { DictEntry, PhraseType, PrefixIndex, groupIdForChar } from './core';
+
+export const TRIE_MAGIC = 0x3154584d; // "MXT1" read as a little-endian u32
+const HEADER_WORDS = 8;
+const F_PY = 1, F_TAG = 2, F_POS = 4, F_TRAD = 8, F_SIMP = 16, F_PROPER = 32, F_CX = 64, F_PH = 128;
+
+export interface TrieChunk {
+  maxLen: number;
+  count: number;
+  // Calls fn(length, entry) for every word that starts at text[start] and ends at or before `end`
+  matches(text: string, start: number, end: number, fn: (len: number, entry: DictEntry) => void): void;
+  get(word: string): DictEntry | undefined;
+  entries(): Generator<[string, DictEntry]>;
+}
+
+export function isTrieBuffer(buf: ArrayBuffer): boolean {
+  return buf.byteLength >= HEADER_WORDS * 4 && new Uint32Array(buf, 0, 1)[0] === TRIE_MAGIC;
+}
+
+export function loadTrie(buf: ArrayBuffer): TrieChunk {
+  if(!isTrieBuffer(buf)) throw new Error('not a MixEn trie chunk');
+  const h = new Uint32Array(buf, 0, HEADER_WORDS);
+  const [, nodeCount, edgeCount, valueWords, stringCount, stringBytes, maxLen, count] = h;
+  let off = HEADER_WORDS * 4;
+  const nodes = new Uint32Array(buf, off, nodeCount * 3); off += nodeCount * 12;
+  const keys = new Uint32Array(buf, off, edgeCount); off += edgeCount * 4;
+  const kids = new Uint32Array(buf, off, edgeCount); off += edgeCount * 4;
+  const values = new Uint32Array(buf, off, valueWords); off += valueWords * 4;
+  const strOffs = new Uint32Array(buf, off, stringCount + 1); off += (stringCount + 1) * 4;
+  const strBytes = new Uint8Array(buf, off, stringBytes);
+  const decoder = new TextDecoder();
+  const strCache: (string | undefined)[] = new Array(stringCount);
+  const entryCache = new Map<number, DictEntry>();
+
+  function str(i: number): string {
+    let s = strCache[i];
+    if(s === undefined) s = strCache[i] = decoder.decode(strBytes.subarray(strOffs[i], strOffs[i + 1]));
+    return s;
+  }
+
+  function entryAt(v: number): DictEntry {
+    let e = entryCache.get(v);
+    if(e) return e;
+    const f = values[v], mask = values[v + 1], n = (mask >>> 8) & 0xff;
+    let p = v + 2;
+    e = { en: [], f };
+    if(mask & F_PY) e.py = str(values[p++]);
+    if(mask & F_TAG) e.tag = str(values[p++]);
+    if(mask & F_POS) e.pos = str(values[p++]);
+    if(mask & F_TRAD) e.trad = str(values[p++]);
+    if(mask & F_SIMP) e.simp = str(values[p++]);
+    for(let k = 0; k < n; k++) e.en.push(str(values[p++]));
+    if(mask & F_CX){
+      e.cx = [];
+      for(let k = 0; k < n; k++) e.cx.push(str(values[p++]));
+    }
+    if(mask & F_PH){
+      const m = values[p++];
+      e.ph = []; e.pht = [];
+      for(let k = 0; k < m; k++){ e.ph.push(str(values[p++])); e.pht.push(str(values[p++]) as PhraseType); }
+      const lit = str(values[p++]), fig = str(values[p++]);
+      if(lit) e.lit = lit;
+      if(fig) e.fig = fig;
+    }
+    if(mask & F_PROPER) e.proper = true;
+    entryCache.set(v, e);
+    return e;
+  }
+
+  function child(node: number, code: number): number {
+    let lo = nodes[node * 3], hi = lo + nodes[node * 3 + 1] - 1;
+    while(lo <= hi){
+      const mid = (lo + hi) >>> 1;
+      const k = keys[mid];
+      if(k === code) return kids[mid];
+      if(k < code) lo = mid + 1; else hi = mid - 1;
+    }
+    return -1;
+  }
+
+  function matches(text: string, start: number, end: number, fn: (len: number, entry: DictEntry) => void){
+    let node = 0;
+    for(let i = start; i < end; i++){
+      node = child(node, text.charCodeAt(i));
+      if(node < 0) return;
+      const v = nodes[node * 3 + 2];
+      if(v) fn(i - start + 1, entryAt(v - 1));
+    }
+  }
+
+  function get(word: string): DictEntry | undefined {
+    let node = 0;
+    for(let i = 0; i < word.length && node >= 0; i++) node = child(node, word.charCodeAt(i));
+    const v = node >= 0 ? nodes[node * 3 + 2] : 0;
+    return v ? entryAt(v - 1) : undefined;
+  }
+
+  // Depth-first, in code unit order
+  function* entries(): Generator<[string, DictEntry]> {
+    const stack: [number, string][] = [[0, '']];
+    while(stack.length){
+      const [node, prefix] = stack.pop()!;
+      const v = nodes[node * 3 + 2];
+      if(v) yield [prefix, entryAt(v - 1)];
+      const first = nodes[node * 3], n = nodes[node * 3 + 1];
+      for(let e = first + n - 1; e >= first; e--) stack.push([kids[e], prefix + String.fromCharCode(keys[e])]);
+    }
+  }
+
+  return { maxLen, count, matches, get, entries };
+}
+
+// One prefix index over per-group tries (words are grouped by their first character)
+export function groupedPrefixIndex(tries: Map<string, TrieChunk>): PrefixIndex {
+  return {
+    matches(text, start, end, fn){
+      const gid = groupIdForChar(text[start]);
+      const t = gid ? tries.get(gid) : undefined;
+      if(t) t.matches(text, start, end, fn);
+    }
+  };
+}
+
+export function trieLookup(tries: Map<string, TrieChunk>, word: string): DictEntry | undefined {
+  const gid = word ? groupIdForChar(word[0]) : null;
+  const t = gid ? tries.get(gid) : undefined;
+  return t ? t.get(word) : undefined;
+}
@@ -0,0 +1,103 @@
+/*
+User dictionary (no DOM)
+- Stored in chrome.storage.local under USER_DICT_KEY as { [zh]: UserEntry }; edited on the options
+  page, merged over the chunk dictionary by the content script.
+- CSV uses the columns tools/export_display_list.js --withMeta writes: zh,en,pinyin,pos,proper,tag.
+  Several rows with the same zh add senses in row order; extra columns (e.g. weight) are ignored.
+*/
+import { DictEntry } from './core';
+
+export const USER_DICT_KEY = 'user_dict';
+export const CSV_COLUMNS = ['zh','en','pinyin','pos','proper','tag'];
+// Segmentation weight for user words the chunks don't have, per million words of the corpus:
+// high enough that a user term wins over splitting it into shorter dictionary words
+export const USER_WORD_PM = 200;
+
+export interface UserEntry {
+  en: string[];
+  py?: string;
+  pos?: string;
+  proper?: boolean;
+  tag?: string;
+}
+export type UserDict = Record<string, UserEntry>;
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const s = text.replace(/^\uFEFF/, '');
+  for(let i=0;i<s.length;i++){
+    const ch = s[i];
+    if(quoted){
+      if(ch === '"' && s[i+1] === '"'){ field += '"'; i++; }
+      else if(ch === '"') quoted = false;
+      else field += ch;
+    } else if(ch === '"') quoted = true;
+    else if(ch === ',') { row.push(field); field = ''; }
+    else if(ch === '\n' || ch === '\r'){
+      if(ch === '\r' && s[i+1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else field += ch;
+  }
+  if(field || row.length){ row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(c => c.trim()));
+}
+
+function csvEscape(s: string): string {
+  if(/[",\n\r]/.test(s)) return '"' + s.replace(/"/g, '""') + '"';
+  return s;
+}
+
+// Rows without Chinese or English are skipped; a missing header means the default column order
+export function userDictFromCsv(text: string): { dict: UserDict, rows: number, skipped: number } {
+  const rows = parseCsv(text);
+  let cols = CSV_COLUMNS;
+  if(rows.length && rows[0].map(c => c.trim().toLowerCase()).includes('zh')){
+    cols = rows.shift()!.map(c => c.trim().toLowerCase());
+  }
+  const at = (r: string[], name: string) => { const k = cols.indexOf(name); return k >= 0 ? (r[k] || '').trim() : ''; };
+  const dict: UserDict = {};
+  let skipped = 0;
+  for(const r of rows){
+    const zh = at(r, 'zh'), en = at(r, 'en');
+    if(!zh || !en){ skipped++; continue; }
+    const e = dict[zh] || (dict[zh] = { en: [] });
+    if(!e.en.includes(en)) e.en.push(en);
+    const py = at(r, 'pinyin'), pos = at(r, 'pos'), tag = at(r, 'tag'), proper = at(r, 'proper');
+    if(py && !e.py) e.py = py;
+    if(pos && !e.pos) e.pos = pos;
+    if(tag && !e.tag) e.tag = tag;
+    if(/^(true|1|yes)$/i.test(proper)) e.proper = true;
+  }
+  return { dict, rows: rows.length, skipped };
+}
+
+// One row per sense, like --withMeta --allSenses
+export function userDictToCsv(dict: UserDict): string {
+  const out = [CSV_COLUMNS.join(',')];
+  for(const zh of Object.keys(dict).sort()){
+    const e = dict[zh];
+    for(const en of e.en){
+      out.push([zh, en, e.py || '', e.pos || '', e.proper ? 'true' : '', e.tag || ''].map(csvEscape).join(','));
+    }
+  }
+  return out.join('\n') + '\n';
+}
+
+// Runtime entry for a user word; keeps the script link and frequency of the entry it overrides
+export function userDictEntry(u: UserEntry, base: DictEntry | undefined, freqTotal: number): DictEntry {
+  const e: DictEntry = { en: u.en.slice(), user: true };
+  e.py = u.py || (base && base.py) || '';
+  const pos = u.pos || (base && base.pos);
+  if(pos) e.pos = pos;
+  if(u.proper) e.proper = true;
+  e.tag = u.tag || (base && base.tag) || 'other';
+  e.f = Math.max((base && base.f) || 0, Math.round(freqTotal * USER_WORD_PM / 1e6));
+  if(base && base.trad) e.trad = base.trad;
+  if(base && base.simp) e.simp = base.simp;
+  return e;
+}
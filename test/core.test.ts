@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Dict, DictEntry, Segment, agreeNoun, chooseSense, contextStems, pluralNoun, segmentChinese } from '../src/core';
+
+function dict(words: Record<string, DictEntry>): Dict {
+  const entries = new Map(Object.entries(words));
+  return { entries, maxLen: Math.max(...Object.keys(words).map(w => w.length)), freqTotal: 1e6 };
+}
+const words = (segs: Segment[]) => segs.map(s => typeof s === 'string' ? s : s.w);
+
+const D = dict({
+  研究: { en: ['research'], pos: 'n', f: 500 },
+  研究生: { en: ['graduate student'], pos: 'n', f: 50 },
+  生命: { en: ['life'], pos: 'n', f: 400 },
+  命: { en: ['fate'], f: 100 },
+  孩子: { en: ['child'], pos: 'n', f: 300 },
+  苹果: { en: ['apple'], pos: 'n', f: 100 },
+  学生: { en: ['student'], pos: 'n', f: 300 },
+  鱼: { en: ['fish'], pos: 'n', f: 200 },
+  河: { en: ['river'], pos: 'n', f: 100 },
+  岸: { en: ['bank', 'shore'], cx: ['finance', 'river'], pos: 'n', f: 50 }
+});
+
+test('segmentChinese takes the most probable route through the DAG', ()=>{
+  assert.deepEqual(words(segmentChinese('研究生命', D)), ['研究', '生命']);
+  assert.deepEqual(words(segmentChinese('他是研究生', D)), ['他', '是', '研究生']);
+});
+
+test('segmentChinese leaves non-CJK text as single characters', ()=>{
+  const segs = segmentChinese('A1 孩子', D);
+  assert.deepEqual(words(segs), ['A', '1', ' ', '孩子']);
+  assert.equal(typeof segs[3] === 'object' && segs[3].entry, D.entries.get('孩子'));
+});
+
+test('chooseSense keeps the build-time order without context', ()=>{
+  assert.deepEqual(chooseSense(D.entries.get('岸')!), { en: 'bank', reason: 'most common sense' });
+  assert.deepEqual(chooseSense(D.entries.get('河')!), { en: 'river', reason: '' });
+});
+
+test('chooseSense prefers a sense whose cues match nearby words', ()=>{
+  const segs = segmentChinese('河岸', D);
+  const pick = chooseSense(D.entries.get('岸')!, contextStems(segs, 1));
+  assert.deepEqual(pick, { en: 'shore', reason: 'fits context: 河' });
+});
+
+test('pluralNoun inflects the head word', ()=>{
+  assert.equal(pluralNoun('box'), 'boxes');
+  assert.equal(pluralNoun('city'), 'cities');
+  assert.equal(pluralNoun('day'), 'days');
+  assert.equal(pluralNoun('cup of tea'), 'cups of tea');
+  assert.equal(pluralNoun('graduate student'), 'graduate students');
+  assert.equal(pluralNoun('policeman'), 'policemen');
+  assert.equal(pluralNoun('human'), 'humans');
+  assert.equal(pluralNoun('sheep'), 'sheep');
+});
+
+test('pluralNoun uses the built-in irregulars without plurals.json, and plurals.json over them', ()=>{
+  assert.equal(pluralNoun('child', {}), 'children');
+  assert.equal(pluralNoun('child', null), 'children');
+  assert.equal(pluralNoun('cactus', { cactus: 'cactuses' }), 'cactuses');
+  assert.equal(pluralNoun('radius', { radius: 'radii' }), 'radii');
+});
+
+function agree(text: string, word: string){
+  const segs = segmentChinese(text, D);
+  const i = segs.findIndex(s => typeof s === 'object' && s.w === word);
+  return agreeNoun(segs, i, chooseSense(D.entries.get(word)!), {});
+}
+
+test('agreeNoun: plural after a numeral and classifier', ()=>{
+  const pick = agree('三个孩子', '孩子')!;
+  assert.equal(pick.en, 'children');
+  assert.equal(pick.rule, 'plural after 三个 (irregular: child → children)');
+  assert.equal(pick.tail, undefined);
+});
+
+test('agreeNoun: 一个 keeps the singular and names the article', ()=>{
+  const pick = agree('一个苹果', '苹果')!;
+  assert.equal(pick.en, 'apple');
+  assert.equal(pick.rule, 'singular after 一个: an apple');
+});
+
+test('agreeNoun: plural after quantity words', ()=>{
+  const pick = agree('很多学生', '学生')!;
+  assert.equal(pick.en, 'students');
+  assert.equal(pick.rule, 'plural after 很多');
+});
+
+test('agreeNoun: 们 is folded into the plural', ()=>{
+  const pick = agree('孩子们在玩', '孩子')!;
+  assert.equal(pick.en, 'children');
+  assert.equal(pick.tail, '们');
+});
+
+test('agreeNoun: nouns without a plural form keep it and say so', ()=>{
+  const pick = agree('三条鱼', '鱼')!;
+  assert.equal(pick.en, 'fish');
+  assert.equal(pick.rule, 'after 三条: fish has no plural form');
+});
+
+test('agreeNoun: nothing to agree with', ()=>{
+  assert.equal(agree('孩子在玩', '孩子'), null);
+  // Containers are not counted things: 两杯水 is not "two waters"
+  assert.equal(agree('三杯孩子', '孩子'), null);
+});
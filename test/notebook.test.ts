@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Encounter, dayKey, notebookToTsv, sentenceAround } from '../src/notebook';
+
+const at = (word: string, shown: string, ts: number, extra: Partial<Encounter> = {}): Encounter =>
+  ({ word, shown, sentence: `${word} here.`, url: 'https://a.com/', title: 'A', ts, ...extra });
+
+test('notebookToTsv: Anki header, one card per word from its latest encounter', ()=>{
+  const tsv = notebookToTsv([
+    at('学生', 'student', 1, { py: 'xué sheng' }),
+    at('學生', 'students', 3, { key: '学生', py: 'xué sheng', sentence: '學生們來了。' }),
+    at('苹果', 'apple', 2)
+  ]);
+  assert.equal(tsv, [
+    '#separator:tab',
+    '#html:false',
+    '#columns:Front\tBack\tPinyin\tContext',
+    '學生\tstudents\txué sheng\t學生們來了。',
+    '苹果\tapple\t\t苹果 here.',
+    ''
+  ].join('\n'));
+});
+
+test('notebookToTsv quotes tabs, quotes and newlines', ()=>{
+  const tsv = notebookToTsv([at('词', 'a\tb', 1, { sentence: 'say "hi"\nthen' })]);
+  assert.equal(tsv.split('\n').slice(3).join('\n'), '词\t"a\tb"\t\t"say ""hi""\nthen"\n');
+});
+
+test('sentenceAround cuts the sentence that holds the word', ()=>{
+  const text = '第一句。我们在研究生命。第三句！';
+  assert.equal(sentenceAround(text, text.indexOf('研究'), 2), '我们在研究生命。');
+  const en = 'First one. The bank is closed today. Last';
+  assert.equal(sentenceAround(en, en.indexOf('bank'), 4), 'The bank is closed today.');
+});
+
+test('dayKey is the zero-padded local date', ()=>{
+  assert.equal(dayKey(new Date(2024, 0, 5, 23, 59).getTime()), '2024-01-05');
+});
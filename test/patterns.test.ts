@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileSiteRules, matchSiteRule, patToRegExp, siteDecision, sitePattern, urlMatchesAny } from '../src/patterns';
+
+test('patToRegExp: wildcards over the full URL, case-insensitive', ()=>{
+  const re = patToRegExp('*://example.com/*')!;
+  assert.ok(re.test('https://example.com/a/b'));
+  assert.ok(re.test('HTTP://EXAMPLE.COM/'));
+  assert.ok(!re.test('https://example.com'));
+  assert.ok(!re.test('https://www.example.com/'));
+  assert.ok(patToRegExp('https://a.com/p?ge')!.test('https://a.com/page'));
+  assert.ok(!patToRegExp('https://a.com/p?ge')!.test('https://a.com/pge'));
+  assert.ok(patToRegExp('https://a.com/(x)+')!.test('https://a.com/(x)+'));
+});
+
+test('patToRegExp: blank lines and comments are not patterns', ()=>{
+  assert.equal(patToRegExp(''), null);
+  assert.equal(patToRegExp('   '), null);
+  assert.equal(patToRegExp('# news sites'), null);
+});
+
+test('sitePattern covers the whole host', ()=>{
+  assert.equal(sitePattern('https://news.example.com/a?b=1'), '*://news.example.com/*');
+  assert.equal(sitePattern('not a url'), '');
+});
+
+test('urlMatchesAny is true when one pattern matches', ()=>{
+  const list = ['*://a.com/*', '*://b.com/*'].map(p => patToRegExp(p)!);
+  assert.ok(urlMatchesAny(list, 'https://b.com/x'));
+  assert.ok(!urlMatchesAny(list, 'https://c.com/x'));
+  assert.ok(!urlMatchesAny([], 'https://a.com/'));
+});
+
+test('matchSiteRule: the most specific rule wins, ties go to the earlier one', ()=>{
+  const compiled = compileSiteRules([
+    { pattern: '*://*.example.com/*', enabled: false },
+    { pattern: '*://news.example.com/*', ratio: 0.3 },
+    { pattern: '# comment' },
+    { pattern: '*://news.example.com/*', ratio: 0.4 }
+  ]);
+  assert.equal(compiled.length, 3);
+  assert.equal(matchSiteRule(compiled, 'https://news.example.com/x')!.index, 1);
+  assert.equal(matchSiteRule(compiled, 'https://www.example.com/x')!.index, 0);
+  assert.equal(matchSiteRule(compiled, 'https://other.org/'), null);
+});
+
+test('siteDecision: switch, blacklist, rule, allowlist', ()=>{
+  const blacklist = ['*://blocked.com/*'].map(p => patToRegExp(p)!);
+  const compiled = compileSiteRules([
+    { pattern: '*://off.com/*', enabled: false },
+    { pattern: '*://on.com/*', enabled: true },
+    { pattern: '*://tuned.com/*', ratio: 0.3 }
+  ]);
+  const on = { enabled: true, allowlistOnly: false };
+  const decide = (cfg: typeof on, url: string)=> siteDecision(cfg, blacklist, compiled, url);
+
+  assert.deepEqual(decide({ ...on, enabled: false }, 'https://on.com/'), { allowed: false, rule: compiled[1], reason: 'MixEn is switched off' });
+  assert.equal(decide(on, 'https://blocked.com/').reason, 'disabled by a blacklist pattern');
+  assert.equal(decide(on, 'https://off.com/').reason, 'disabled by rule 1 (*://off.com/*)');
+  assert.equal(decide(on, 'https://tuned.com/').reason, 'enabled, rule 3 (*://tuned.com/*) applies');
+  assert.equal(decide(on, 'https://plain.com/').reason, 'enabled, global settings apply');
+  assert.ok(decide(on, 'https://plain.com/').allowed);
+
+  const allowlist = { enabled: true, allowlistOnly: true };
+  assert.ok(decide(allowlist, 'https://on.com/').allowed);
+  assert.ok(!decide(allowlist, 'https://tuned.com/').allowed);
+  assert.ok(!decide(allowlist, 'https://plain.com/').allowed);
+  assert.ok(urlMatchesAny(blacklist, 'https://blocked.com/x'));
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SETTINGS, RATIO_MAX, SETTINGS_VERSION, migrateSettings, settingsFromJson, settingsToJson, validSetting, validateSettings } from '../src/settings';
+
+test('validateSettings fills in defaults without problems', ()=>{
+  assert.deepEqual(validateSettings({}), { settings: DEFAULT_SETTINGS, problems: [] });
+  assert.deepEqual(validateSettings(null), { settings: DEFAULT_SETTINGS, problems: [] });
+});
+
+test('validateSettings replaces bad values and clamps out-of-range ones', ()=>{
+  const v = SETTINGS_VERSION;
+  const { settings, problems } = validateSettings({ settingsVersion: v, enabled: 'yes', ratio: 2, minNodeLen: 3.4, display: 'popup', seed: ' abc ' });
+  assert.equal(settings.enabled, DEFAULT_SETTINGS.enabled);
+  assert.equal(settings.ratio, RATIO_MAX);
+  assert.equal(settings.minNodeLen, 3);
+  assert.equal(settings.display, DEFAULT_SETTINGS.display);
+  assert.equal(settings.seed, 'abc');
+  assert.deepEqual(problems.sort(), ['display', 'enabled', 'minNodeLen', 'ratio']);
+});
+
+test('validateSettings checks site rules field by field', ()=>{
+  const { settings, problems } = validateSettings({
+    settingsVersion: SETTINGS_VERSION,
+    siteRules: [{ pattern: ' *://a.com/* ', ratio: 0.2, enabled: true, skip: ['nav', 3] }, { pattern: '' }, { ratio: 0.1 }]
+  });
+  assert.deepEqual(settings.siteRules, [{ pattern: '*://a.com/*', enabled: true, ratio: 0.2, skip: ['nav'] }]);
+  assert.deepEqual(problems, ['siteRules']);
+});
+
+test('validSetting checks a single field', ()=>{
+  assert.equal(validSetting('ratio', 0.3), 0.3);
+  assert.equal(validSetting('ratio', 0), 0.05);
+  assert.deepEqual(validSetting('blacklist', ['  *://x/* ', '', 1]), ['*://x/*']);
+});
+
+test('migration 0 -> 1: blacklist text and percentage ratio', ()=>{
+  const raw = migrateSettings({ blacklist: '*://a/*\n*://b/*', ratio: 20 });
+  assert.equal(raw.settingsVersion, SETTINGS_VERSION);
+  assert.deepEqual(raw.blacklist, ['*://a/*', '*://b/*']);
+  assert.equal(raw.ratio, 0.2);
+  const { settings, problems } = validateSettings({ blacklist: '*://a/*', ratio: 20 });
+  assert.deepEqual(settings.blacklist, ['*://a/*']);
+  assert.equal(settings.ratio, 0.2);
+  assert.deepEqual(problems, []);
+});
+
+test('migrations are not applied again to current settings', ()=>{
+  const { settings } = validateSettings({ settingsVersion: SETTINGS_VERSION, ratio: 20 });
+  assert.equal(settings.ratio, RATIO_MAX);
+});
+
+test('settings JSON round-trip', ()=>{
+  const settings = { ...DEFAULT_SETTINGS, ratio: 0.25, blacklist: ['*://a/*'] };
+  assert.deepEqual(settingsFromJson(settingsToJson(settings)), { settings, problems: [] });
+});
+
+test('settingsFromJson rejects what is not a settings object', ()=>{
+  assert.throws(()=> settingsFromJson('{'), /not a JSON file/);
+  assert.throws(()=> settingsFromJson('[1]'), /not a MixEn settings object/);
+  assert.throws(()=> settingsFromJson(JSON.stringify({ settingsVersion: SETTINGS_VERSION + 1 })), /is newer than/);
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DictEntry, groupIdForChar, segmentChinese } from '../src/core';
+import { TrieChunk, groupedPrefixIndex, isTrieBuffer, loadTrie, trieLookup } from '../src/trie';
+import { encodeTrie } from '../tools/trie_writer';
+
+const ENTRIES: [string, DictEntry][] = [
+  ['研究', { en: ['research', 'study'], py: 'yán jiū', tag: 'academic', pos: 'n', f: 500, cx: ['science', ''] }],
+  ['研究生', { en: ['graduate student'], py: 'yán jiū shēng', f: 50, trad: '研究生' }],
+  ['生命', { en: ['life'], f: 400 }],
+  ['北京', { en: ['Beijing'], f: 300, proper: true, tag: 'place' }],
+  ['一石二鸟', { en: ['kill two birds with one stone'], f: 2, ph: ['kill two birds with one stone'], pht: ['idiom'], lit: 'one stone, two birds', fig: 'two goals at once' }],
+  ['門', { en: ['door'], f: 80, simp: '门' }]
+];
+
+// One chunk per group, as build_dict.js --format bin writes them
+function tries(): Map<string, TrieChunk> {
+  const groups = new Map<string, [string, DictEntry][]>();
+  for(const [w, e] of ENTRIES){
+    const gid = groupIdForChar(w[0])!;
+    if(!groups.has(gid)) groups.set(gid, []);
+    groups.get(gid)!.push([w, e]);
+  }
+  const out = new Map<string, TrieChunk>();
+  for(const [gid, list] of groups){
+    const buf: Buffer = encodeTrie(list, Math.max(...list.map(([w]) => w.length)));
+    const ab = buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.length);
+    assert.ok(isTrieBuffer(ab));
+    out.set(gid, loadTrie(ab));
+  }
+  return out;
+}
+
+test('encodeTrie -> trieLookup round-trip keeps every field', ()=>{
+  const t = tries();
+  for(const [w, e] of ENTRIES) assert.deepEqual(trieLookup(t, w), e);
+  assert.equal(trieLookup(t, '研'), undefined);
+  assert.equal(trieLookup(t, '研究所'), undefined);
+  assert.equal(trieLookup(t, 'abc'), undefined);
+  assert.equal(trieLookup(t, ''), undefined);
+});
+
+test('a chunk lists its entries and counts them', ()=>{
+  const t = tries();
+  const all = [...t.values()].flatMap(c => [...c.entries()]);
+  assert.deepEqual(all.map(([w]) => w).sort(), ENTRIES.map(([w]) => w).sort());
+  assert.equal([...t.values()].reduce((n, c) => n + c.count, 0), ENTRIES.length);
+});
+
+test('matches walks every word starting at a position', ()=>{
+  const t = tries();
+  const found: string[] = [];
+  const text = '研究生命';
+  groupedPrefixIndex(t).matches(text, 0, text.length, (len, e)=> found.push(`${text.slice(0, len)}:${e.en[0]}`));
+  assert.deepEqual(found, ['研究:research', '研究生:graduate student']);
+});
+
+test('segmentation over trie chunks matches the Map dictionary', ()=>{
+  const text = '他在北京研究生命。';
+  const viaMap = segmentChinese(text, { entries: new Map(ENTRIES), maxLen: 4, freqTotal: 1e6 });
+  const viaTrie = segmentChinese(text, { entries: new Map(), maxLen: 4, freqTotal: 1e6, prefix: groupedPrefixIndex(tries()) });
+  assert.deepEqual(viaTrie, viaMap);
+  assert.deepEqual(viaTrie.map(s => typeof s === 'string' ? s : s.w), ['他', '在', '北京', '研究', '生命', '。']);
+});
+
+test('loadTrie refuses other data', ()=>{
+  assert.throws(()=> loadTrie(new ArrayBuffer(64)), /not a MixEn trie chunk/);
+});
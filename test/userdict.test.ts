@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { USER_WORD_PM, UserDict, parseCsv, userDictEntry, userDictFromCsv, userDictToCsv } from '../src/userdict';
+
+test('parseCsv: quotes, doubled quotes, newlines in fields, CRLF and BOM', ()=>{
+  const text = '\uFEFFzh,en\r\n机器学习,"learning, machine"\r\n引号,"say ""hi"""\n多行,"a\nb"\n\n';
+  assert.deepEqual(parseCsv(text), [
+    ['zh', 'en'], ['机器学习', 'learning, machine'], ['引号', 'say "hi"'], ['多行', 'a\nb']
+  ]);
+});
+
+test('userDictFromCsv: senses in row order, header order, skipped rows', ()=>{
+  const text = 'en,zh,proper,weight\nmachine learning,机器学习,,3\nML,机器学习,,1\nBeijing,北京,yes,\n,空,,\n';
+  const { dict, rows, skipped } = userDictFromCsv(text);
+  assert.deepEqual(dict, {
+    机器学习: { en: ['machine learning', 'ML'] },
+    北京: { en: ['Beijing'], proper: true }
+  });
+  assert.equal(rows, 4);
+  assert.equal(skipped, 1);
+});
+
+test('userDictFromCsv: no header means the default columns', ()=>{
+  const { dict } = userDictFromCsv('张三,Zhang San,zhāng sān,n,true,person\n');
+  assert.deepEqual(dict, { 张三: { en: ['Zhang San'], py: 'zhāng sān', pos: 'n', proper: true, tag: 'person' } });
+});
+
+test('user dictionary CSV round-trip', ()=>{
+  const dict: UserDict = {
+    机器学习: { en: ['machine learning', 'ML, "short"'], py: 'jī qì xué xí', pos: 'n', tag: 'tech' },
+    北京: { en: ['Beijing'], proper: true },
+    多行: { en: ['line one\nline two'] }
+  };
+  const csv = userDictToCsv(dict);
+  assert.equal(csv.split('\n')[0], 'zh,en,pinyin,pos,proper,tag');
+  assert.deepEqual(userDictFromCsv(csv), { dict, rows: 4, skipped: 0 });
+});
+
+test('userDictEntry keeps the script link and frequency of the entry it overrides', ()=>{
+  const base = { en: ['study'], py: 'yán jiū', pos: 'v', tag: 'academic', f: 5000, trad: '研究' };
+  assert.deepEqual(userDictEntry({ en: ['research'], pos: 'n' }, base, 1e6), {
+    en: ['research'], user: true, py: 'yán jiū', pos: 'n', tag: 'academic', f: 5000, trad: '研究'
+  });
+  const fresh = userDictEntry({ en: ['LLM'] }, undefined, 2e6);
+  assert.equal(fresh.f, 2 * USER_WORD_PM);
+  assert.equal(fresh.tag, 'other');
+});
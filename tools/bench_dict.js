@@ -0,0 +1,136 @@
+#!/usr/bin/env node
+/*
+Size and speed comparison of the two chunk formats (JSON vs binary trie) for the built dictionary.
+Reads extension/data in whichever format it was built, encodes every group in the other format in
+memory, and reports:
+- bytes per format, raw and gzipped (what the extension ships / what a server would send)
+- load time: JSON.parse + Map for JSON chunks, loadTrie (typed array views, no parse) for binary
+- segmentation throughput over sample text, with both dictionaries (results must be identical)
+
+Usage:
+  node tools/bench_dict.js [--text file.txt] [--rounds 20]
+    --text   : UTF-8 text to segment (default: the sentences of bench/feed.html)
+    --rounds : repetitions per measurement; the median is reported
+Needs dist/mixen.js (npm run build:ts).
+*/
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+const { encodeTrie } = require('./trie_writer');
+
+const argv = process.argv.slice(2);
+function val(name, def){ const i=argv.indexOf(name); return i>=0? (argv[i+1]||''): def; }
+
+const ROUNDS = Math.max(1, parseInt(val('--rounds', '20'), 10) || 20);
+const textPath = val('--text', '');
+
+let lib = null;
+try{
+  lib = require(path.join(__dirname, '..', 'dist', 'mixen.js'));
+}catch(e){
+  console.error('bench_dict.js needs dist/mixen.js; run `npm run build:ts` first.');
+  process.exit(1);
+}
+
+const SAMPLE = [
+  '今天学校的学生在图书馆学习到很晚，老师说这个问题需要更多的研究。',
+  '这家公司的工程师正在开发一个新的软件系统，用来管理城市的交通数据。',
+  '很多人认为手机和电脑的价格明年还会上涨，市场的变化让消费者很担心。',
+  '球队的教练在比赛结束后表示，球员们的表现比上个赛季更加稳定。',
+  '医院的医生提醒大家，冬天要注意身体健康，多喝水，按时休息。',
+  '政府发布了新的经济政策，希望帮助中小企业解决资金和人才的问题。',
+  '博物馆今年举办了三次展览，吸引了来自全国各地的游客。',
+  '这条河流经过的地区有很多山，当地的农民主要种植水果和茶叶。',
+  '大学和研究所合作完成了一个关于气候变化的项目，结果将在会议上发表。',
+  '火车站附近新开了一家餐厅，菜单上有很多传统的家常菜。'
+].join('\n');
+
+const base = path.join(__dirname, '..', 'extension', 'data');
+const idx = JSON.parse(fs.readFileSync(path.join(base, 'index.json'), 'utf8'));
+const gids = Object.keys(idx.groups);
+if(!gids.length){ console.error('No chunks in extension/data; run `npm run build:dict` first.'); process.exit(1); }
+
+// Both encodings of every group: { gid, json: Buffer, bin: Buffer }
+const groups = [];
+for(const gid of gids){
+  const meta = idx.groups[gid];
+  const file = path.join(base, 'chunks', meta.file);
+  let entries;
+  if(file.endsWith('.bin')){
+    entries = Array.from(lib.readTrieFile(file).entries());
+    entries.sort((a,b)=> b[0].length - a[0].length || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+  } else {
+    entries = JSON.parse(fs.readFileSync(file, 'utf8')).entries;
+  }
+  groups.push({
+    gid,
+    json: Buffer.from(JSON.stringify({ maxLen: meta.maxLen, entries })),
+    bin: encodeTrie(entries, meta.maxLen)
+  });
+}
+
+function median(fn){
+  const times = [];
+  let out;
+  for(let r = 0; r < ROUNDS; r++){
+    const t0 = process.hrtime.bigint();
+    out = fn();
+    times.push(Number(process.hrtime.bigint() - t0) / 1e6);
+  }
+  times.sort((a,b)=> a - b);
+  return { ms: times[Math.floor(times.length / 2)], out };
+}
+
+function loadJson(){
+  const entries = new Map();
+  let maxLen = 1;
+  for(const g of groups){
+    const chunk = JSON.parse(g.json.toString('utf8'));
+    if(chunk.maxLen > maxLen) maxLen = chunk.maxLen;
+    for(const [w, v] of chunk.entries) entries.set(w, v);
+  }
+  return { entries, maxLen, freqTotal: idx.freqTotal || 0 };
+}
+
+function loadBin(){
+  const tries = new Map();
+  let maxLen = 1;
+  for(const g of groups){
+    // Same copy the browser gets from fetch().arrayBuffer()
+    const trie = lib.loadTrie(g.bin.buffer.slice(g.bin.byteOffset, g.bin.byteOffset + g.bin.length));
+    tries.set(g.gid, trie);
+    if(trie.maxLen > maxLen) maxLen = trie.maxLen;
+  }
+  return { entries: new Map(), maxLen, freqTotal: idx.freqTotal || 0, prefix: lib.groupedPrefixIndex(tries) };
+}
+
+const text = textPath ? fs.readFileSync(textPath, 'utf8') : SAMPLE;
+const lines = text.split(/\n+/).filter(Boolean);
+function segmentAll(dict){
+  return lines.map(line => lib.segmentChinese(line, dict).map(s => typeof s === 'string' ? s : s.w).join('|'));
+}
+
+const sum = (key)=> groups.reduce((n, g)=> n + g[key].length, 0);
+const gz = (key)=> groups.reduce((n, g)=> n + zlib.gzipSync(g[key]).length, 0);
+const jsonLoad = median(loadJson);
+const binLoad = median(loadBin);
+const jsonDict = jsonLoad.out, binDict = binLoad.out;
+// First pass outside the timing: trie entries are decoded (and cached) on first use
+const expected = segmentAll(jsonDict);
+const differs = segmentAll(binDict).filter((s, i)=> s !== expected[i]).length;
+const jsonSeg = median(()=> segmentAll(jsonDict));
+const binSeg = median(()=> segmentAll(binDict));
+const chars = lines.reduce((n, l)=> n + l.length, 0);
+const kb = (n)=> (n / 1024).toFixed(1) + ' KB';
+const rate = (ms)=> ms > 0 ? Math.round(chars / ms) + ' chars/ms' : '-';
+
+console.log(`${gids.length} groups, ${jsonDict.entries.size} entries, ${chars} chars of sample text, median of ${ROUNDS} rounds\n`);
+console.table({
+  json: { bytes: kb(sum('json')), gzip: kb(gz('json')), load: jsonLoad.ms.toFixed(2) + ' ms', segment: jsonSeg.ms.toFixed(2) + ' ms', throughput: rate(jsonSeg.ms) },
+  bin: { bytes: kb(sum('bin')), gzip: kb(gz('bin')), load: binLoad.ms.toFixed(2) + ' ms', segment: binSeg.ms.toFixed(2) + ' ms', throughput: rate(binSeg.ms) }
+});
+if(differs){
+  console.error(`✗ ${differs} line(s) segment differently with the binary chunks`);
+  process.exit(1);
+}
+console.log('Segmentation identical for both formats.');
@@ -1,20 +1,57 @@
 #!/usr/bin/env node
 /*
 Builds a compact Chinese→English dictionary from CC-CEDICT, with optional AWL/NGSL tags.
-- Downloads CC-CEDICT gz file
+- Reads CC-CEDICT from --cedict (local plain or .gz file). Every other source (--awl, --ngsl, --freq,
+  --dbnary) also takes a local path, and the build never touches the network unless --fetch is given:
+  then sources may be URLs, and CC-CEDICT defaults to the MDBG export
+- Other target languages (--target fr|de|ja) are built the same way from another source (--source,
+  adapters in tools/dict_sources.js): a CEDICT-format file (CFDICT, HanDeDict), a Chinese Wiktionary
+  DBnary dump or a FreeDict TEI file, given with --dict. --cedict alongside them only fills in
+  pinyin and traditional forms. Glosses stay in the `en` field whatever the language; index.json
+  records `target`. AWL/NGSL tags, WordNet POS and the reverse index are English only
 - Parses entries; keeps simplified form, pinyin, first few short English senses
+- Also emits the traditional form as its own headword (bucketed by its own first char) unless --noTrad;
+  simplified-only keys carry `trad`, traditional-only keys carry `simp` so the runtime can tell them apart
+- Phrase senses, kept apart from `en` for the runtime's opt-in phrase mode (off with --noPhrases):
+  multi-word, hyphenated and capitalised glosses in `ph`, each typed in `pht` ('phrase', 'proper',
+  'idiom'). Chengyu (glosses marked "(idiom)") get their figurative meaning(s) as 'idiom' senses and
+  `lit`/`fig` for the word card; headwords up to --phraseMaxLen characters are kept for them
+- Ranks English senses by NGSL/AWL frequency and keeps gloss cue words (`cx`) per sense, used by
+  the runtime to pick the sense that fits the surrounding words
+- Writes a word frequency `f` into every entry (and `freqTotal` into the index) for the runtime's
+  max-probability segmenter: counts from --freq (jieba dict.txt / "word count" lines; fractional
+  ones are scaled to whole numbers, see roundFreqs) when given,
+  otherwise estimated from how many CEDICT headwords contain the word, boosted by NGSL/AWL tag
 - Tags entries: 'academic' if headword in AWL, 'common' if in NGSL, else 'other' (or defaultTag)
-- Outputs:
+- Also writes the reverse (English -> Chinese) index for reverse mode: every kept English sense
+  becomes a headword pointing at the Chinese words it translates, best first (sense rank, then
+  frequency), tagged the same way; plus the WordNet plural exceptions (noun.exc) for those headwords
+- For English, the irregular plurals (noun.exc, read the other way) of the head nouns of all kept
+  senses, for the runtime's agreement pass (core.ts agreeNoun): 三个孩子 -> three children
+- Outputs (for --target en; other targets write the same files, without en/, to extension/data/{target}/):
   extension/data/index.json
-  extension/data/chunks/g{n}.json (bucketed by first char codepoint in 512-size groups)
+  extension/data/chunks/g{n}.json (bucketed by first char codepoint in 512-size groups), or
+  g{n}.bin with --format bin: a prefix trie with a string table (layout in src/trie.ts)
+  extension/data/en/{a-z}.json (reverse index, bucketed by first letter) and en/noun_exc.json
+  extension/data/plurals.json (singular -> irregular plural)
+  extension/data/manifest.json (source checksums, build options, entry counts and chunk checksums)
+- Output is deterministic for the same sources and options, so two builds can be compared by manifest
 
 Usage:
-  node tools/build_dict.js [--awl pathOrUrl] [--ngsl pathOrUrl] [--minLen 2] [--maxLen 4] [--maxSenses 3]
+  node tools/build_dict.js --cedict path [--awl path] [--ngsl path] [--freq path] [--dbnary path]
+                           [--minLen 2] [--maxLen 4] [--maxSenses 3] [--noTrad] [--noWordNet] [--format json|bin]
+                           [--noPhrases] [--phraseMaxLen 8]
+  node tools/build_dict.js --fetch [--cedict url] [--dbnary url] ...   download sources given as URLs
+  node tools/build_dict.js --target fr|de|ja --source cedict|dbnary|freedict --dict path [--cedict path] [--dbnary path] ...
+  node tools/build_dict.js --verify [--target fr] [--cedict path ...]   check chunks (and any local sources given) against manifest.json
 */
 const fs = require('fs');
 const path = require('path');
 const zlib = require('zlib');
 const https = require('https');
+const crypto = require('crypto');
+const { encodeTrie, trieEntryCount } = require('./trie_writer');
+const { SOURCES } = require('./dict_sources');
 let WORDNET_DIR = '';
 try {
   // Optional: wordnet-db for noun list and exceptions
@@ -39,12 +76,53 @@ const MAX_LEN = parseInt(argVal('--maxLen','4'),10);
 const MAX_SENSES = parseInt(argVal('--maxSenses','2'),10);
 const AWL_SRC = argVal('--awl','');
 const NGSL_SRC = argVal('--ngsl','');
+const FREQ_SRC = argVal('--freq','');
 const USE_WORDNET = !hasFlag('--noWordNet');
 const DEFAULT_TAG = argVal('--defaultTag','common'); // for lightweight fallback
+const INCLUDE_TRAD = !hasFlag('--noTrad');
+const PHRASES = !hasFlag('--noPhrases');
+const PHRASE_MAX_LEN = parseInt(argVal('--phraseMaxLen','8'),10);
+const TARGET = argVal('--target','en');
+const SOURCE = argVal('--source','cedict');
+const DICT_SRC = argVal('--dict','');
+const FETCH = hasFlag('--fetch');
+// --cedict is the source itself for CEDICT-format builds, a pinyin/traditional table otherwise
+const CEDICT_SRC = argVal('--cedict', FETCH && SOURCE === 'cedict' && !DICT_SRC && TARGET === 'en' ? CEDICT_URL : '');
+const DBNARY_SRC = argVal('--dbnary','');
+const FORMAT = argVal('--format','json');
+const VERIFY = hasFlag('--verify');
+const MANIFEST_VERSION = 1;
 
-const outDir = path.join(__dirname, '..', 'extension', 'data');
+// Gloss rules per target language: the letters a gloss word is made of, whether a capitalised word
+// is a proper noun (German capitalises every noun), cross-reference senses to skip (whole sense,
+// then each part), and whether words are separated by spaces (cue words need them)
+const TARGETS = {
+  en: { letters: 'A-Za-z', capsProper: true, spaced: true,
+        xref: /^(variant of|see also|see\b|surname|old variant of|abbr\.|abbr)/i, xrefPart: /^(see\b|variant\b|abbr\b|surname\b)/i },
+  fr: { letters: 'A-Za-zÀ-ÖØ-öø-ÿŒœ', capsProper: true, spaced: true,
+        xref: /^(variante|voir|nom de famille|abr)/i, xrefPart: /^(voir|variante|abr)\b/i },
+  de: { letters: 'A-Za-zÄÖÜäöüß', capsProper: false, spaced: true,
+        xref: /^(Variante|siehe|Familienname|Abk)/i, xrefPart: /^(siehe|Variante|Abk)\b/i },
+  ja: { letters: '\u3005\u3041-\u309F\u30A0-\u30FF\u4E00-\u9FFF', capsProper: false, spaced: false,
+        xref: /^(→|参照|異体字)/, xrefPart: /^(→|参照)/ }
+};
+const PROFILE = TARGETS[TARGET];
+
+const dataDir = path.join(__dirname, '..', 'extension', 'data');
+const outDir = TARGET === 'en' ? dataDir : path.join(dataDir, TARGET);
 const chunksDir = path.join(outDir, 'chunks');
-fs.mkdirSync(chunksDir, { recursive: true });
+const CHUNK_FILE = /^g\d+\.(json|bin)$/;
+const reverseDir = path.join(outDir, 'en');
+const REVERSE_FILE = /^([a-z]|noun_exc)\.json$/;
+const REVERSE_MAX_ZH = 3; // Chinese words kept per English headword
+const WITH_REVERSE = TARGET === 'en';
+const PLURALS_FILE = 'plurals.json';
+// noun.exc plurals nobody would use for the everyday sense (kine for cows)
+const ARCHAIC_PLURALS = new Set(['brethren', 'kine', 'hosen', 'shoon', 'eyen', 'childer', 'peasen']);
+if(PROFILE){
+  fs.mkdirSync(chunksDir, { recursive: true });
+  if(WITH_REVERSE) fs.mkdirSync(reverseDir, { recursive: true });
+}
 
 function fetchBuffer(url){
   return new Promise((resolve, reject)=>{
@@ -62,15 +140,42 @@ function fetchBuffer(url){
   });
 }
 
-function readTextMaybeUrl(src){
-  if(!src) return Promise.resolve('');
-  if(/^https?:\/\//.test(src)){
-    return fetchBuffer(src).then(b=>b.toString('utf8'));
-  } else {
-    return fs.promises.readFile(src, 'utf8');
+// name -> {src, sha256, bytes}; checksums are of the file as read (before gunzip)
+const sourceLog = {};
+function sha256(buf){ return crypto.createHash('sha256').update(buf).digest('hex'); }
+function sha256File(file){
+  return new Promise((resolve, reject)=>{
+    const h = crypto.createHash('sha256');
+    let bytes = 0;
+    fs.createReadStream(file)
+      .on('data', d=>{ h.update(d); bytes += d.length; })
+      .on('end', ()=>resolve({ sha256: h.digest('hex'), bytes }))
+      .on('error', reject);
+  });
+}
+function isUrl(src){ return /^https?:\/\//.test(src); }
+
+// Fails before anything is read: a URL without --fetch, or a local file that isn't there
+function checkSources(given){
+  for(const [name, src] of Object.entries(given)){
+    if(!src) continue;
+    if(isUrl(src) && !FETCH) throw new Error(`--${name} ${src} is a URL: pass a local path, or --fetch to download it`);
+    if(!isUrl(src) && !fs.existsSync(src)) throw new Error(`--${name} ${src}: file not found`);
   }
 }
 
+async function readBufferMaybeUrl(src, name){
+  const buf = isUrl(src) ? await fetchBuffer(src) : await fs.promises.readFile(src);
+  if(name) sourceLog[name] = { src, sha256: sha256(buf), bytes: buf.length };
+  // Transparently gunzip (.gz or gzip magic bytes)
+  return (buf[0] === 0x1f && buf[1] === 0x8b) ? zlib.gunzipSync(buf) : buf;
+}
+
+function readTextMaybeUrl(src, name){
+  if(!src) return Promise.resolve('');
+  return readBufferMaybeUrl(src, name).then(b=>b.toString('utf8'));
+}
+
 async function fetchToFile(url, outPath){
   return new Promise((resolve, reject)=>{
     const fs2 = require('fs');
@@ -86,17 +191,24 @@ async function fetchToFile(url, outPath){
   });
 }
 
-async function loadDbnaryNounSet(src){
-  // Supports local .bz2 path or URL; prefers Python parser (tools/parse_dbnary_nouns.py)
+// Sources read by external tools: a URL is downloaded to the temp dir first
+async function localFile(src, name, tmpName){
   const os = require('os');
-  const cp = require('child_process');
   let pathLocal = src;
-  if(/^https?:\/\//.test(src)){
-    const tmp = path.join(os.tmpdir(), 'zh_dbnary_ontolex.ttl.bz2');
+  if(isUrl(src)){
+    const tmp = path.join(os.tmpdir(), tmpName);
     await fetchToFile(src, tmp);
     pathLocal = tmp;
   }
-  if(!fs.existsSync(pathLocal)) throw new Error('DBnary file not found: '+pathLocal);
+  if(!fs.existsSync(pathLocal)) throw new Error('File not found: '+pathLocal);
+  sourceLog[name] = { src, ...(await sha256File(pathLocal)) };
+  return pathLocal;
+}
+
+async function loadDbnaryNounSet(src){
+  // Supports local .bz2 path or URL; prefers Python parser (tools/parse_dbnary_nouns.py)
+  const cp = require('child_process');
+  const pathLocal = await localFile(src, 'dbnary', 'zh_dbnary_ontolex.ttl.bz2');
   // Try Python helper
   try{
     const out = cp.execFileSync('python3', [path.join(__dirname, 'parse_dbnary_nouns.py'), pathLocal], {encoding:'utf8', maxBuffer: 1024*1024*128});
@@ -119,72 +231,231 @@ async function loadDbnaryNounSet(src){
   return nounSet;
 }
 
+// Returns word -> rank (0-based line order; NGSL/AWL files are listed by frequency/sublist)
 async function loadWordSet(name, src){
-  if(!src) return new Set();
+  if(!src) return new Map();
   try{
-    const text = await readTextMaybeUrl(src);
-    const set = new Set();
+    const text = await readTextMaybeUrl(src, name.toLowerCase());
+    const set = new Map();
     for(const line of text.split(/\r?\n/)){
       const w = line.trim().toLowerCase();
       if(!w) continue;
       // CSV first field if needed
       const first = w.split(/[\s,;\t]/)[0];
-      if(first && /^[a-zA-Z-]+$/.test(first)) set.add(first.toLowerCase());
+      if(first && /^[a-zA-Z-]+$/.test(first) && !set.has(first)) set.set(first, set.size);
     }
     console.log(`Loaded ${set.size} ${name} words from ${src}`);
     return set;
   }catch(e){
     console.warn(`Failed to load ${name} from ${src}:`, e.message);
-    return new Set();
+    return new Map();
+  }
+}
+
+// Sense order for the runtime: NGSL words by rank, then AWL words, then everything else in
+// CEDICT order (CEDICT lists the primary sense first). `cx` cue strings move with their sense.
+function rankSenses(e, awl, ngsl){
+  const rank = (tok) => {
+    const t = tok.toLowerCase();
+    if(ngsl.has(t)) return ngsl.get(t);
+    if(awl.has(t)) return ngsl.size + awl.get(t);
+    return Infinity;
+  };
+  const order = e.en.map((en, k) => ({ en, cx: e.cx[k], r: rank(en), k }));
+  order.sort((a, b) => (a.r - b.r) || (a.k - b.k));
+  e.en = order.map(o => o.en);
+  e.cx = order.map(o => o.cx);
+}
+
+async function loadFreqList(src){
+  const map = new Map();
+  if(!src) return map;
+  try{
+    const text = await readTextMaybeUrl(src, 'freq');
+    for(const line of text.split(/\r?\n/)){
+      // "word count [pos]" (jieba dict.txt) or "word,count" / "word\tcount"
+      const [w, c] = line.trim().split(/[\s,;\t]+/);
+      const n = parseFloat(c);
+      if(w && n > 0) map.set(w, (map.get(w) || 0) + n);
+    }
+    console.log(`Loaded ${map.size} word frequencies from ${src}`);
+    roundFreqs(map);
+  }catch(e){
+    console.warn(`Failed to load frequencies from ${src}:`, e.message);
+  }
+  return map;
+}
+
+// Binary chunks store `f` as a u32, so every build stores whole numbers: lists with fractional
+// values (per-million style) are scaled by a power of ten until the smallest one is at least 1
+// (at most 1e6), then rounded. JSON and binary chunks then hold the same frequencies.
+let freqScale = 1;
+function roundFreqs(map){
+  let min = Infinity, fractional = false;
+  for(const n of map.values()){
+    if(n < min) min = n;
+    if(!Number.isInteger(n)) fractional = true;
   }
+  freqScale = 1;
+  if(fractional) while(min * freqScale < 1 && freqScale < 1e6) freqScale *= 10;
+  for(const [w, n] of map) map.set(w, Math.max(1, Math.round(n * freqScale)));
+  if(freqScale !== 1) console.log(`Scaled fractional frequencies by ${freqScale}`);
+}
+
+// Fallback frequency signal: a word that occurs inside many other headwords is a productive,
+// usually common, word (研究 in 研究生, 研究所, 研究员 ...).
+function countCompounds(raw){
+  const counts = new Map();
+  for(const { simp: w } of raw){
+    for(let l = MIN_LEN; l <= Math.min(MAX_LEN, w.length - 1); l++){
+      const subs = new Set();
+      for(let i = 0; i + l <= w.length; i++) subs.add(w.slice(i, i + l));
+      for(const sub of subs) counts.set(sub, (counts.get(sub) || 0) + 1);
+    }
+  }
+  return counts;
 }
 
 function escapeRe(s){ return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); }
 // Filtering removed by request: no blocklist at build time.
 
 
-function parseCedictLine(line){
-  // Format: trad simp [pinyin] /sense1/sense2/
-  const m = line.match(/^(\S+)\s+(\S+)\s+\[([^\]]+)\]\s+\/(.+)\/$/);
-  if(!m) return null;
-  const trad = m[1], simp = m[2], py = m[3];
-  const sensesRaw = m[4];
-  if(!simp || simp.length < MIN_LEN || simp.length > MAX_LEN) return null;
-  if(/CL:/.test(sensesRaw)) return null; // skip classifier-only lines
-  const senses = sensesRaw.split('/').filter(Boolean).slice(0, 6);
+// Raw source entry (dict_sources.js) -> {trad, simp, py, en, cx} with the first few short glosses
+function pickSenses(raw){
+  const { trad, simp, py } = raw;
+  if(!simp || simp.length < MIN_LEN) return null;
+  // Longer headwords (chengyu, set phrases) only for their phrase senses
+  const long = simp.length > MAX_LEN;
+  if(long && !(PHRASES && simp.length <= PHRASE_MAX_LEN && /^[\u4e00-\u9fff]+$/.test(simp))) return null;
+  const senses = long ? [] : raw.senses.slice(0, 6);
   const enShort = [];
-  const allowEnglishToken = (tok) => {
+  const cues = []; // per kept token: other content words of its gloss, for runtime context scoring
+  const notLetter = new RegExp(`[^${PROFILE.letters}\\-\\s]`, 'g');
+  const allowToken = (tok) => {
     if(!tok) return false;
     if(/\s/.test(tok)) return false; // single-token only
     if(tok.includes('-')) return false; // exclude hyphenated
-    if(/^[A-Z]/.test(tok)) return false; // exclude capitalized (proper)
+    if(PROFILE.capsProper && /^\p{Lu}/u.test(tok)) return false; // exclude capitalized (proper)
+    if(tok === simp || tok === trad) return false; // a Japanese gloss can be the Chinese word itself
     return true;
   };
   for(const s of senses){
     let t = s; // keep original case for proper nouns (NetEase, Chinese Super League)
-    if(/^(variant of|see also|see\b|surname|old variant of|abbr\.|abbr)/i.test(t)) continue;
+    if(PROFILE.xref.test(t)) continue;
     t = t.replace(/\([^)]*\)/g, ' ');
     t = t.replace(/\[[^\]]*\]/g, ' ');
     // keep letters, spaces and hyphens; but do not force lower-case here
-    t = t.replace(/[^A-Za-z\-\s]/g, ' ').replace(/\s+/g, ' ').trim();
+    t = t.replace(notLetter, ' ').replace(/\s+/g, ' ').trim();
     if(!t) continue;
     // Split by separators into phrases
     for(const part of t.split(/[;,]/)){
       const p = part.trim();
       if(!p) continue;
-      if(/^(see\b|variant\b|abbr\b|surname\b)/i.test(p)) continue; // drop low-value cross-refs
+      if(PROFILE.xrefPart.test(p)) continue; // drop low-value cross-refs
       const words = p.split(/\s+/);
-      // Only keep single-token English (e.g., drop "to discover", "home page")
+      // Only keep single-token glosses (e.g., drop "to discover", "home page")
       if(words.length !== 1) continue;
       const tok = words[0];
-      if(!allowEnglishToken(tok)) continue;
+      if(!allowToken(tok)) continue;
+      const seenAt = enShort.indexOf(tok);
+      if(seenAt >= 0){
+        // same English in several senses (virus (medicine) / virus (computing)): pool the cues
+        cues[seenAt] = mergeCues(cues[seenAt], senseCues(s, tok));
+        continue;
+      }
       enShort.push(tok);
+      cues.push(senseCues(s, tok));
       if(enShort.length >= MAX_SENSES) break;
     }
     if(enShort.length >= MAX_SENSES) break;
   }
-  if(enShort.length === 0) return null;
-  return { trad, simp, py, en: Array.from(new Set(enShort)) };
+  const phrases = PHRASES && PROFILE.spaced ? pickPhrases(raw, enShort) : null;
+  if(enShort.length === 0 && !(phrases && phrases.ph.length)) return null;
+  const e = { trad, simp, py, en: enShort, cx: cues };
+  if(phrases && phrases.ph.length){
+    e.ph = phrases.ph;
+    e.pht = phrases.pht;
+    if(phrases.lit) e.lit = phrases.lit;
+    if(phrases.fig) e.fig = phrases.fig;
+  }
+  return e;
+}
+
+// Phrase mode senses: what pickSenses leaves out for being several words, hyphenated or
+// capitalised. A chengyu's senses are its figurative meanings, shortest first (the one shown
+// in the page); `lit` and `fig` are the "lit. ...; fig. ..." parts of its gloss.
+const PHRASE_MAX_WORDS = 4;
+const IDIOM_MAX_WORDS = 8;
+function pickPhrases(raw, single){
+  const ph = [], pht = [];
+  const add = (text, type) => {
+    if(text && ph.length < MAX_SENSES && !ph.includes(text) && !single.includes(text)){ ph.push(text); pht.push(type); }
+  };
+  const notLetter = new RegExp(`[^${PROFILE.letters}\\-\\s']`, 'g');
+  const clean = (t) => t.replace(/\([^)]*\)/g, ' ').replace(/\[[^\]]*\]/g, ' ')
+    .replace(/\bsth\b/g, 'something').replace(/\bsb\b/g, 'somebody') // CEDICT shorthand
+    .replace(notLetter, ' ').replace(/(^|\s)'|'(?=\s|$)/g, ' ').replace(/\s+/g, ' ').trim();
+  const wordCount = (t) => t.split(' ').length;
+  const all = raw.senses.join('/');
+  if(/\(idiom\)/.test(all)){
+    const lit = all.match(/\blit\.\s*([^;/]+)/);
+    const fig = all.match(/\bfig\.\s*([^;/]+)/);
+    const cands = fig ? [clean(fig[1])] : [];
+    for(const s of raw.senses){
+      if(/\b(lit|fig)\./.test(s)) continue;
+      const c = clean(s);
+      if(c) cands.push(c);
+    }
+    cands.filter(c => c && wordCount(c) <= IDIOM_MAX_WORDS)
+      .sort((a, b) => wordCount(a) - wordCount(b))
+      .forEach(c => add(c, 'idiom'));
+    return { ph, pht, lit: lit ? clean(lit[1]) : '', fig: cands[0] || '' };
+  }
+  for(const s of raw.senses.slice(0, 6)){
+    if(PROFILE.xref.test(s) || /\b(lit|fig)\./.test(s)) continue;
+    for(const part of s.replace(/\([^)]*\)/g, ' ').split(/[;,]/)){
+      const p = clean(part);
+      if(!p || PROFILE.xrefPart.test(p)) continue;
+      const proper = PROFILE.capsProper && /^\p{Lu}/u.test(p);
+      const n = wordCount(p);
+      if(n === 1 && !proper && !p.includes('-')) continue; // a plain word: pickSenses' call
+      if(n > PHRASE_MAX_WORDS) continue;
+      if(/^to\s/i.test(p)) continue; // verb glosses ("to look into") don't read as a phrase in running text
+      add(p, proper ? 'proper' : 'phrase');
+    }
+  }
+  return { ph, pht, lit: '', fig: '' };
+}
+
+const CUE_STOP = new Set(['also','used','with','that','this','from','into','something','someone','person','thing','kind','type','form','variant','usually','often','esp','especially','etc','other','same','such','abbr']);
+function senseCues(raw, tok){
+  if(!PROFILE.spaced) return '';
+  const words = String(raw).toLowerCase().match(new RegExp(`[${PROFILE.letters}]{4,}`, 'g')) || [];
+  const own = tok.toLowerCase();
+  return Array.from(new Set(words.filter(w => w !== own && !CUE_STOP.has(w)))).slice(0, 4).join(' ');
+}
+function mergeCues(a, b){
+  return Array.from(new Set((a + ' ' + b).split(' ').filter(Boolean))).slice(0, 6).join(' ');
+}
+
+// Wiktionary and FreeDict headwords come in either script, often without pinyin: take the
+// simplified/traditional pair and pinyin of the CEDICT line for the same word
+function fillFromCedict(raw, cedictRaw){
+  const byWord = new Map();
+  for(const c of cedictRaw){
+    if(!byWord.has(c.simp)) byWord.set(c.simp, c);
+    if(!byWord.has(c.trad)) byWord.set(c.trad, c);
+  }
+  let filled = 0;
+  for(const e of raw){
+    const c = byWord.get(e.simp);
+    if(!c) continue;
+    e.simp = c.simp;
+    e.trad = c.trad;
+    e.py = c.py;
+    filled++;
+  }
+  console.log(`Pinyin and script forms from CEDICT for ${filled} of ${raw.length} entries`);
 }
 
 function bucketIdForChar(ch){
@@ -195,43 +466,84 @@ function bucketIdForChar(ch){
 }
 
 async function main(){
-  const awl = await loadWordSet('AWL', AWL_SRC);
-  const ngsl = await loadWordSet('NGSL', NGSL_SRC);
-  const dbnarySrc = argVal('--dbnary','');
+  if(FORMAT !== 'json' && FORMAT !== 'bin') throw new Error('--format must be json or bin');
+  if(!PROFILE) throw new Error(`--target must be one of ${Object.keys(TARGETS).join(', ')}`);
+  const source = SOURCES[SOURCE];
+  if(!source) throw new Error(`--source must be one of ${Object.keys(SOURCES).join(', ')}`);
+  const src = SOURCE === 'cedict' ? (DICT_SRC || CEDICT_SRC) : DICT_SRC;
+  if(!src && SOURCE === 'cedict') throw new Error('--cedict: path to CC-CEDICT (plain or .gz), or --fetch to download it');
+  if(!src) throw new Error(`--dict: path to the ${SOURCE} file for target ${TARGET}`);
+  checkSources({ cedict: CEDICT_SRC, dict: DICT_SRC, awl: AWL_SRC, ngsl: NGSL_SRC, freq: FREQ_SRC, dbnary: DBNARY_SRC });
+  // The English word lists only make sense for English glosses
+  if(TARGET !== 'en' && (AWL_SRC || NGSL_SRC)) console.warn('--awl/--ngsl ignored for target', TARGET);
+  const awl = TARGET === 'en' ? await loadWordSet('AWL', AWL_SRC) : new Map();
+  const ngsl = TARGET === 'en' ? await loadWordSet('NGSL', NGSL_SRC) : new Map();
   let dbnaryNouns = null;
-  if(dbnarySrc){
+  if(DBNARY_SRC){
     try{
-      dbnaryNouns = await loadDbnaryNounSet(dbnarySrc);
+      dbnaryNouns = await loadDbnaryNounSet(DBNARY_SRC);
       console.log('DBnary noun entries loaded:', dbnaryNouns.size);
     }catch(e){ console.warn('Failed to load DBnary nouns:', e.message); }
   }
 
-  console.log('Downloading CC-CEDICT ...');
-  const gzBuf = await fetchBuffer(CEDICT_URL);
-  const txtBuf = zlib.gunzipSync(gzBuf);
-  const txt = txtBuf.toString('utf8');
-  console.log('Parsing CEDICT ...');
+  console.log(isUrl(src) ? `Downloading ${SOURCE} from ${src} ...` : `Reading ${SOURCE} from ${src} ...`);
+  const ctx = { target: TARGET, readText: readTextMaybeUrl, localFile };
+  const raw = await source.read(src, ctx);
+  if(SOURCE !== 'cedict' && CEDICT_SRC) await fillFromCedict(raw, await SOURCES.cedict.read(CEDICT_SRC, ctx));
+  console.log(`Parsing ${raw.length} ${SOURCE} entries for target ${TARGET} ...`);
+  const freqList = await loadFreqList(FREQ_SRC);
+  const compounds = freqList.size ? null : countCompounds(raw);
+  const estimateFreq = (e, tag) => {
+    if(freqList.size) return freqList.get(e.simp) || freqList.get(e.trad) || 1;
+    const boost = tag === 'common' ? 4 : tag === 'academic' ? 2 : 1;
+    return (1 + (compounds.get(e.simp) || 0)) * boost;
+  };
 
   const groups = new Map(); // gid -> {entries: Map(word->obj), maxLen}
-  const { nounSet, exc } = loadWordNetNouns();
+  const { nounSet, exc } = TARGET === 'en' ? loadWordNetNouns() : { nounSet: null, exc: null };
   let kept = 0, seen = 0;
+  const tradPending = []; // [trad, val]; added after all simplified keys so those win on collision
+  const addEntry = (word, val) => {
+    const gid = bucketIdForChar(word[0]);
+    if(!gid) return false;
+    if(!groups.has(gid)) groups.set(gid, { entries: new Map(), maxLen: 0 });
+    const g = groups.get(gid);
+    g.entries.set(word, val);
+    if(word.length > g.maxLen) g.maxLen = word.length;
+    return true;
+  };
+  const reverse = new Map(); // english -> [{w, py, trad?, f, rank}]
+  const heads = new Set(); // head nouns of the kept senses, for plurals.json
+  const addReverse = (e, f) => {
+    e.en.forEach((en, rank) => {
+      const key = en.toLowerCase();
+      if(!/^[a-z]/.test(key)) return;
+      if(!reverse.has(key)) reverse.set(key, []);
+      const zh = { w: e.simp, py: e.py, f, rank };
+      if(e.trad !== e.simp) zh.trad = e.trad;
+      reverse.get(key).push(zh);
+    });
+  };
+  const hasEntry = (word) => {
+    const g = groups.get(bucketIdForChar(word[0]));
+    return !!(g && g.entries.has(word));
+  };
 
-  for(const line of txt.split(/\r?\n/)){
-    if(!line || line.startsWith('#')) continue;
+  for(const r of raw){
     seen++;
-    const e = parseCedictLine(line);
+    const e = pickSenses(r);
     if(!e) continue;
-    const gid = bucketIdForChar(e.simp[0]);
-    if(!gid) continue;
+    if(!bucketIdForChar(e.simp[0])) continue;
+    rankSenses(e, awl, ngsl);
     // Tagging
     let tag = 'other';
     // choose a headword for tagging (first token of first en)
-    const head = e.en[0].split(/\s+/)[0];
+    const head = (e.en[0] || '').split(/\s+/)[0];
     if(awl.size && awl.has(head)) tag = 'academic';
     else if(ngsl.size && ngsl.has(head)) tag = 'common';
     else if(!awl.size && !ngsl.size) tag = DEFAULT_TAG;
 
-    // POS: noun via WordNet check or DBnary noun list
+    // POS: noun via WordNet check, the source's own POS or DBnary noun list
     let pos = undefined;
     if(nounSet){
       for(const en of e.en){
@@ -240,36 +552,252 @@ async function main(){
         if(isWordNetNoun(s, nounSet, exc)) { pos = 'n'; break; }
       }
     }
+    if(!pos && r.pos) pos = r.pos;
     if(!pos && dbnaryNouns){
       if(dbnaryNouns.has(e.simp) || dbnaryNouns.has(e.trad)) pos = 'n';
     }
 
-    const val = { en: e.en, py: e.py, tag };
+    const val = { en: e.en, py: e.py || undefined, tag, f: estimateFreq(e, tag) };
+    if(WITH_REVERSE) addReverse(e, val.f);
+    if(exc) for(const en of e.en){ const h = nounHead(en); if(h) heads.add(h); }
+    if(e.cx.some(Boolean)) val.cx = e.cx;
+    if(e.ph){
+      val.ph = e.ph;
+      val.pht = e.pht;
+      if(e.lit) val.lit = e.lit;
+      if(e.fig) val.fig = e.fig;
+    }
     if(pos) val.pos = pos;
-    if(!groups.has(gid)) groups.set(gid, { entries: new Map(), maxLen: 0 });
-    const g = groups.get(gid);
-    g.entries.set(e.simp, val);
-    if(e.simp.length > g.maxLen) g.maxLen = e.simp.length;
+    if(INCLUDE_TRAD && e.trad !== e.simp){
+      addEntry(e.simp, { ...val, trad: e.trad });
+      tradPending.push([e.trad, { ...val, simp: e.simp }]);
+    } else {
+      addEntry(e.simp, val);
+    }
     kept++;
   }
 
-  console.log(`Kept ${kept} entries out of ${seen} lines.`);
+  let tradKept = 0;
+  for(const [trad, val] of tradPending){
+    if(hasEntry(trad)) continue; // same string is a simplified headword of its own
+    if(addEntry(trad, val)) tradKept++;
+  }
+
+  console.log(`Kept ${kept} entries out of ${seen} lines` + (INCLUDE_TRAD ? ` (+${tradKept} traditional headwords).` : '.'));
 
-  const index = { groupSize: 512, groups: {} };
-  for(const [gid, g] of groups){
-    const file = `${gid}.json`;
+  // Drop chunks from earlier builds so the directory matches the manifest exactly
+  for(const f of fs.readdirSync(chunksDir)){
+    if(CHUNK_FILE.test(f)) fs.unlinkSync(path.join(chunksDir, f));
+  }
+  const index = { groupSize: 512, freqTotal: 0, format: FORMAT, target: TARGET, groups: {} };
+  const chunkLog = {};
+  const gids = Array.from(groups.keys()).sort((a,b)=> parseInt(a.slice(1),10) - parseInt(b.slice(1),10));
+  for(const gid of gids){
+    const g = groups.get(gid);
+    const file = `${gid}.${FORMAT}`;
     const entries = Array.from(g.entries.entries());
-    // Sort by word length desc then lexicographically to improve matching stability
-    entries.sort((a,b)=> b[0].length - a[0].length || a[0].localeCompare(b[0]));
-    const payload = { maxLen: g.maxLen, entries };
-    fs.writeFileSync(path.join(chunksDir, file), JSON.stringify(payload));
+    for(const [, v] of entries) index.freqTotal += v.f;
+    // Sort by word length desc then by code unit (locale-independent, so builds are reproducible)
+    entries.sort((a,b)=> b[0].length - a[0].length || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+    const payload = FORMAT === 'bin' ? encodeTrie(entries, g.maxLen) : JSON.stringify({ maxLen: g.maxLen, entries });
+    fs.writeFileSync(path.join(chunksDir, file), payload);
     index.groups[gid] = { file, count: entries.length, maxLen: g.maxLen };
+    chunkLog[gid] = { file, count: entries.length, sha256: sha256(payload) };
+  }
+  if(WITH_REVERSE) index.reverse = writeReverse(reverse, { awl, ngsl, nounSet, exc });
+  const plurals = exc ? writePlurals(heads, exc) : null;
+  if(!plurals && fs.existsSync(path.join(outDir, PLURALS_FILE))) fs.unlinkSync(path.join(outDir, PLURALS_FILE));
+  if(plurals) index.plurals = plurals.file;
+  const indexJson = JSON.stringify(index, null, 2);
+  fs.writeFileSync(path.join(outDir, 'index.json'), indexJson);
+  console.log(`Wrote ${gids.length} chunk files and index.`);
+
+  const manifest = {
+    version: MANIFEST_VERSION,
+    options: {
+      target: TARGET, source: SOURCE, minLen: MIN_LEN, maxLen: MAX_LEN, maxSenses: MAX_SENSES, defaultTag: DEFAULT_TAG,
+      trad: INCLUDE_TRAD, phrases: PHRASES, phraseMaxLen: PHRASE_MAX_LEN, freqScale, wordnet: !!exc, wordnetNouns: !!nounSet, dbnary: !!dbnaryNouns, format: FORMAT
+    },
+    tools: { node: process.version, wordnetDb: wordnetDbVersion() },
+    sources: sourceLog,
+    counts: {
+      lines: seen, kept, trad: tradKept, entries: gids.reduce((n, gid)=> n + chunkLog[gid].count, 0),
+      reverse: index.reverse ? Object.values(index.reverse.groups).reduce((n, g)=> n + g.count, 0) : 0
+    },
+    index: { sha256: sha256(indexJson) },
+    groups: chunkLog,
+    reverse: reverseLog
+  };
+  if(plurals) manifest.plurals = plurals;
+  fs.writeFileSync(path.join(outDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+  console.log('Wrote manifest.json');
+}
+
+// Reverse index: one file per first letter, {entries: [[english, {zh: [{w, py, trad?, f}], tag, pos?}], ...]}
+const reverseLog = {}; // file -> {count, sha256}, for the manifest
+function writeReverse(reverse, { awl, ngsl, nounSet, exc }){
+  for(const f of fs.readdirSync(reverseDir)){
+    if(REVERSE_FILE.test(f)) fs.unlinkSync(path.join(reverseDir, f));
+  }
+  const letters = new Map(); // letter -> entries
+  for(const key of Array.from(reverse.keys()).sort()){
+    const zh = reverse.get(key)
+      .sort((a,b)=> (a.rank - b.rank) || (b.f - a.f) || (a.w < b.w ? -1 : a.w > b.w ? 1 : 0))
+      .filter((z, k, list)=> list.findIndex(o => o.w === z.w) === k) // several CEDICT lines, one word
+      .slice(0, REVERSE_MAX_ZH)
+      .map(({ rank, ...z }) => z);
+    let tag = 'other';
+    if(awl.size && awl.has(key)) tag = 'academic';
+    else if(ngsl.size && ngsl.has(key)) tag = 'common';
+    else if(!awl.size && !ngsl.size) tag = DEFAULT_TAG;
+    const val = { zh, tag };
+    if(isWordNetNoun(key, nounSet, exc)) val.pos = 'n';
+    const letter = key[0];
+    if(!letters.has(letter)) letters.set(letter, []);
+    letters.get(letter).push([key, val]);
+  }
+  const out = { groups: {}, exc: null };
+  const write = (file, payload, count) => {
+    fs.writeFileSync(path.join(reverseDir, file), payload);
+    reverseLog[file] = { count, sha256: sha256(payload) };
+  };
+  for(const [letter, entries] of letters){
+    const file = `${letter}.json`;
+    write(file, JSON.stringify({ entries }), entries.length);
+    out.groups[letter] = { file: `en/${file}`, count: entries.length };
+  }
+  // Irregular plurals of indexed nouns, for the runtime lemmatiser (core.ts lemmaNoun)
+  if(exc){
+    const table = {};
+    for(const [inflected, base] of Array.from(exc.entries()).sort((a,b)=> a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0)){
+      if(inflected !== base && reverse.has(base) && !reverse.has(inflected)) table[inflected] = base;
+    }
+    write('noun_exc.json', JSON.stringify(table), Object.keys(table).length);
+    out.exc = 'en/noun_exc.json';
   }
-  fs.writeFileSync(path.join(outDir, 'index.json'), JSON.stringify(index, null, 2));
-  console.log(`Wrote ${Object.keys(index.groups).length} chunk files and index.`);
+  console.log(`Wrote reverse index: ${reverse.size} English headwords in ${letters.size} files.`);
+  return out;
 }
 
-main().catch(err=>{
+// JSON and binary chunks must hold the same entries, so either --format segments and ranks alike.
+// A JSON chunk is encoded as a trie and read back; a binary chunk is read and encoded again.
+// Needs the trie reader from dist/mixen.js (npm run build:ts); skipped without it.
+let trieLib;
+function formatParity(file, buf){
+  if(trieLib === undefined){
+    try{ trieLib = require(path.join(__dirname, '..', 'dist', 'mixen.js')); }
+    catch{ trieLib = null; console.warn('dist/mixen.js not built; skipping the JSON/binary parity check'); }
+  }
+  if(!trieLib) return '';
+  const read = (b)=> trieLib.loadTrie(b.buffer.slice(b.byteOffset, b.byteOffset + b.length));
+  if(file.endsWith('.bin')){
+    const trie = read(buf);
+    const list = Array.from(trie.entries())
+      .sort((a,b)=> b[0].length - a[0].length || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+    return Buffer.compare(encodeTrie(list, trie.maxLen), buf) === 0 ? '' : 'binary chunk does not encode back to itself';
+  }
+  const chunk = JSON.parse(buf.toString('utf8'));
+  const trie = read(encodeTrie(chunk.entries, chunk.maxLen));
+  for(const [w, v] of chunk.entries){
+    if(canonical(trie.get(w)) !== canonical(v)) return `${w} differs in the binary format`;
+  }
+  return '';
+}
+// Key order and empty optional fields don't matter
+function canonical(v){
+  if(!v) return '';
+  const out = {};
+  for(const k of Object.keys(v).sort()){
+    if(v[k] === undefined || v[k] === '' || (Array.isArray(v[k]) && !v[k].length)) continue;
+    out[k] = v[k];
+  }
+  return JSON.stringify(out);
+}
+
+// Irregular plural of each head noun that has one; the first noun.exc line wins (file order)
+function writePlurals(heads, exc){
+  const table = {};
+  for(const [inflected, base] of exc){
+    if(inflected === base || !heads.has(base) || ARCHAIC_PLURALS.has(inflected)) continue;
+    if(!Object.prototype.hasOwnProperty.call(table, base)) table[base] = inflected;
+  }
+  const payload = JSON.stringify(table);
+  fs.writeFileSync(path.join(outDir, PLURALS_FILE), payload);
+  const count = Object.keys(table).length;
+  console.log(`Wrote ${PLURALS_FILE}: ${count} irregular plurals.`);
+  return { file: PLURALS_FILE, count, sha256: sha256(payload) };
+}
+
+function wordnetDbVersion(){
+  if(!USE_WORDNET || !WORDNET_DIR) return null;
+  try{ return require('wordnet-db/package.json').version; }catch{ return null; }
+}
+
+// --verify: recompute chunk/index checksums and entry counts; compare local sources given on the
+// command line with the checksums recorded at build time. Exits 1 on any mismatch.
+async function verify(){
+  const manifestPath = path.join(outDir, 'manifest.json');
+  if(!fs.existsSync(manifestPath)) throw new Error('No manifest at '+manifestPath+'; run a build first');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  if(manifest.version !== MANIFEST_VERSION) throw new Error('Unsupported manifest version '+manifest.version);
+  const problems = [];
+  const indexPath = path.join(outDir, 'index.json');
+  if(!fs.existsSync(indexPath)) problems.push('index.json missing');
+  else if(sha256(fs.readFileSync(indexPath)) !== manifest.index.sha256) problems.push('index.json checksum mismatch');
+  let entries = 0;
+  for(const [gid, meta] of Object.entries(manifest.groups)){
+    const file = path.join(chunksDir, meta.file);
+    if(!fs.existsSync(file)){ problems.push(`${meta.file} missing`); continue; }
+    const buf = fs.readFileSync(file);
+    if(sha256(buf) !== meta.sha256) problems.push(`${meta.file} checksum mismatch`);
+    let count = -1;
+    try{
+      count = meta.file.endsWith('.bin') ? trieEntryCount(buf) : JSON.parse(buf.toString('utf8')).entries.length;
+    }catch(e){ problems.push(`${meta.file} unreadable: ${e.message}`); continue; }
+    if(count !== meta.count) problems.push(`${gid}: ${count} entries, manifest says ${meta.count}`);
+    entries += count;
+    const parity = formatParity(meta.file, buf);
+    if(parity) problems.push(`${meta.file}: ${parity}`);
+  }
+  for(const f of fs.readdirSync(chunksDir)){
+    const gid = f.replace(/\.(json|bin)$/, '');
+    if(CHUNK_FILE.test(f) && (!manifest.groups[gid] || manifest.groups[gid].file !== f)) problems.push(`${f} not in manifest`);
+  }
+  for(const [file, meta] of Object.entries(manifest.reverse || {})){
+    const p = path.join(reverseDir, file);
+    if(!fs.existsSync(p)){ problems.push(`en/${file} missing`); continue; }
+    const buf = fs.readFileSync(p);
+    if(sha256(buf) !== meta.sha256) problems.push(`en/${file} checksum mismatch`);
+  }
+  if(fs.existsSync(reverseDir)){
+    for(const f of fs.readdirSync(reverseDir)){
+      if(REVERSE_FILE.test(f) && !(manifest.reverse || {})[f]) problems.push(`en/${f} not in manifest`);
+    }
+  }
+  if(manifest.plurals){
+    const p = path.join(outDir, manifest.plurals.file);
+    if(!fs.existsSync(p)) problems.push(`${manifest.plurals.file} missing`);
+    else if(sha256(fs.readFileSync(p)) !== manifest.plurals.sha256) problems.push(`${manifest.plurals.file} checksum mismatch`);
+  }
+  const given = { cedict: argVal('--cedict',''), awl: AWL_SRC, ngsl: NGSL_SRC, freq: FREQ_SRC, dbnary: DBNARY_SRC };
+  if(DICT_SRC) given[SOURCE === 'cedict' ? 'cedict' : 'dict'] = DICT_SRC;
+  for(const [name, src] of Object.entries(given)){
+    if(!src || isUrl(src)) continue;
+    const rec = manifest.sources[name];
+    if(!rec){ problems.push(`source ${name} was not used by this build`); continue; }
+    const { sha256: sum } = await sha256File(src);
+    if(sum !== rec.sha256) problems.push(`source ${name} (${src}) differs from the one built from`);
+  }
+  const groupCount = Object.keys(manifest.groups).length;
+  if(problems.length){
+    for(const p of problems) console.error('✗', p);
+    console.error(`Verify failed: ${problems.length} problem(s).`);
+    process.exit(1);
+  }
+  console.log(`Verified ${groupCount} chunks, ${entries} entries against manifest.`);
+}
+
+(VERIFY ? verify() : main()).catch(err=>{
   console.error(err);
   process.exit(1);
 });
@@ -288,14 +816,18 @@ function loadWordNetNouns(){
       const lemma = line.split(' ')[0];
       if(lemma) set.add(lemma.toLowerCase());
     }
+    // Some wordnet-db releases ship without the exception lists; the runtime falls back to its
+    // built-in irregular plurals then
+    if(!fs.existsSync(excPath)){
+      console.warn('WordNet noun.exc not found in', WORDNET_DIR);
+      return { nounSet: set, exc: null };
+    }
     const excMap = new Map();
-    if(fs.existsSync(excPath)){
-      const exct = fs.readFileSync(excPath, 'utf8');
-      for(const line of exct.split(/\r?\n/)){
-        if(!line) continue;
-        const [inflected, base] = line.trim().split(/\s+/);
-        if(inflected && base) excMap.set(inflected.toLowerCase(), base.toLowerCase());
-      }
+    const exct = fs.readFileSync(excPath, 'utf8');
+    for(const line of exct.split(/\r?\n/)){
+      if(!line) continue;
+      const [inflected, base] = line.trim().split(/\s+/);
+      if(inflected && base) excMap.set(inflected.toLowerCase(), base.toLowerCase());
     }
     return { nounSet: set, exc: excMap };
   }catch(e){
@@ -321,6 +853,14 @@ function simpleLemmaNoun(word, exc){
   return head;
 }
 
+// Same rules as nounHead in core.ts: the word before "of" ("cup of tea"), else the last word
+function nounHead(sense){
+  const words = (sense || '').toLowerCase().trim().split(/\s+/);
+  const of = words.indexOf('of');
+  const head = of > 0 ? words[of - 1] : words[words.length - 1];
+  return /^[a-z][a-z-]*$/.test(head) ? head : '';
+}
+
 function isWordNetNoun(eng, nounSet, exc){
   if(!nounSet) return false;
   const lemma = simpleLemmaNoun(eng, exc);
@@ -20,14 +20,24 @@ const common = {
   }
 };
 
-esbuild.build({
-  entryPoints: ['src/content.ts'],
-  outfile: 'extension/content.js',
-  ...common
-}).then(()=> esbuild.build({
-  entryPoints: ['src/options.ts'],
-  outfile: 'extension/options.js',
+// Extension entry points: src/<name>.ts -> extension/<name>.js
+const pages = ['content', 'background', 'options', 'popup', 'devtools', 'panel', 'notebookpage'];
+
+pages.reduce((p, name)=> p.then(()=> esbuild.build({
+  entryPoints: [`src/${name}.ts`],
+  outfile: `extension/${name}.js`,
   ...common
+})), Promise.resolve()).then(()=> esbuild.build({
+  // Node library for the CLI (tools/mixen.js) and for `require('mixen')`
+  entryPoints: ['src/node.ts'],
+  outfile: 'dist/mixen.js',
+  bundle: true,
+  platform: 'node',
+  format: 'cjs',
+  target: ['node18'],
+  legalComments: 'none',
+  logLevel: 'info',
+  banner: { js: banner }
 })).catch((e)=>{ console.error(e); process.exit(1); });
 
 // ensure css copied (already referenced directly)
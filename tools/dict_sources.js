@@ -0,0 +1,102 @@
+/*
+Dictionary source adapters for build_dict.js (--source).
+An adapter reads one local dump (or URL) and returns the raw Chinese entries with glosses in the
+target language; build_dict.js does the rest the same way for every source (headword length, gloss
+filtering per target language, ranking, tags, frequencies, chunks).
+
+  const { SOURCES } = require('./dict_sources');
+  const entries = await SOURCES.dbnary.read(src, ctx);
+  // entries: [{ trad, simp, py, senses: ['raw gloss', ...], pos? }, ...]; py may be '' (no pinyin)
+  // ctx: { target, readText(src, logName), localFile(src, logName, tmpName) }
+
+- cedict: CC-CEDICT line format, `trad simp [pin1 yin1] /gloss/gloss/`. Also CFDICT (French) and
+  HanDeDict (German), which use the same lines.
+- dbnary: a Chinese Wiktionary DBnary dump (zh_dbnary_ontolex.ttl.bz2), translations into the target
+  language, read by tools/parse_dbnary_nouns.py --translations.
+- freedict: a FreeDict TEI dictionary with Chinese headwords (zho-xxx.tei); TEI P5 <cit type="trans">
+  and the older <trans><tr> layout.
+*/
+const path = require('path');
+
+// ISO 639-3 codes used by DBnary's lexvo targetLanguage and FreeDict file names
+const LANG3 = { en: 'eng', fr: 'fra', de: 'deu', ja: 'jpn' };
+
+const cedict = {
+  name: 'cedict',
+  async read(src, ctx){
+    const txt = await ctx.readText(src, 'cedict');
+    const out = [];
+    for(const line of txt.split(/\r?\n/)){
+      if(!line || line.startsWith('#')) continue;
+      const m = line.match(/^(\S+)\s+(\S+)\s+\[([^\]]+)\]\s+\/(.+)\/$/);
+      if(!m) continue;
+      // Lines with a classifier note are kept for the compound counts but give no senses
+      const senses = /CL:/.test(m[4]) ? [] : m[4].split('/').filter(Boolean);
+      out.push({ trad: m[1], simp: m[2], py: m[3], senses });
+    }
+    return out;
+  }
+};
+
+const dbnary = {
+  name: 'dbnary',
+  async read(src, ctx){
+    const cp = require('child_process');
+    const file = await ctx.localFile(src, 'dict', 'zh_dbnary_ontolex.ttl.bz2');
+    const out = cp.execFileSync('python3', [path.join(__dirname, 'parse_dbnary_nouns.py'), '--translations', LANG3[ctx.target], file], { encoding: 'utf8', maxBuffer: 1024*1024*256 });
+    // One row per lexical entry with translations; a headword with several entries (noun and verb)
+    // becomes one entry, noun if any of them is
+    const byWord = new Map();
+    for(const row of JSON.parse(out)){
+      let e = byWord.get(row.w);
+      if(!e){
+        e = { trad: row.w, simp: row.w, py: row.py || '', senses: [] };
+        byWord.set(row.w, e);
+      }
+      if(row.pos === 'noun') e.pos = 'n';
+      if(!e.py && row.py) e.py = row.py;
+      for(const t of row.tr) if(!e.senses.includes(t)) e.senses.push(t);
+    }
+    return Array.from(byWord.values());
+  }
+};
+
+function xmlText(s){
+  return s.replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ').trim();
+}
+function allText(block, re){
+  const out = [];
+  for(const m of block.matchAll(re)){
+    const t = xmlText(m[1]);
+    if(t) out.push(t);
+  }
+  return out;
+}
+
+const freedict = {
+  name: 'freedict',
+  async read(src, ctx){
+    const txt = await ctx.readText(src, 'dict');
+    const out = [];
+    for(const m of txt.matchAll(/<entry\b[^>]*>([\s\S]*?)<\/entry>/g)){
+      const block = m[1];
+      const orth = allText(block, /<orth\b[^>]*>([\s\S]*?)<\/orth>/g);
+      if(!orth.length) continue;
+      const pron = allText(block, /<pron\b[^>]*>([\s\S]*?)<\/pron>/g);
+      const senses = allText(block, /<cit\b[^>]*type="trans"[^>]*>[\s\S]*?<quote\b[^>]*>([\s\S]*?)<\/quote>/g)
+        .concat(allText(block, /<tr\b[^>]*>([\s\S]*?)<\/tr>/g));
+      const pos = allText(block, /<pos\b[^>]*>([\s\S]*?)<\/pos>/g)[0] || '';
+      // Simplified and traditional forms, when both are given, are two <orth>s
+      const e = { trad: orth[1] || orth[0], simp: orth[0], py: pron[0] || '', senses };
+      if(/^(n|noun|nom|subst)/i.test(pos)) e.pos = 'n';
+      out.push(e);
+    }
+    return out;
+  }
+};
+
+const SOURCES = { cedict, dbnary, freedict };
+
+module.exports = { SOURCES, LANG3 };
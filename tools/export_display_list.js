@@ -1,13 +1,20 @@
 #!/usr/bin/env node
 /*
 Export Chinese -> English pairs from the built dictionary as CSV, mirroring
-the runtime behavior (choose the shortest English sense). No extra filtering
-is applied here beyond what the builder emitted.
+the runtime behavior without page context (the first sense, which the builder
+ranks by English frequency). No extra filtering is applied here beyond what the
+builder emitted, unless a level is given.
 
 Usage:
-  node tools/export_display_list.js [--out export/display.csv] [--allSenses] [--withMeta]
+  node tools/export_display_list.js [--out export/display.csv] [--allSenses] [--withMeta] [--withTrad]
+                                    [--level beginner|intermediate|academic|each]
     --allSenses : export all English senses (multiple rows per Chinese)
     --withMeta  : include extra columns (pinyin,pos,proper,tag)
+    --withTrad  : also export traditional-only headwords (skipped by default; they repeat a simplified row)
+    --level     : only words the extension would use at that level, most suitable first (adds a
+                  `weight` column); `each` writes one file per level (display.<level>.csv).
+                  Uses the level rules from dist/mixen.js (npm run build:ts)
+Reads JSON chunks and binary trie chunks (build_dict.js --format bin; needs dist/mixen.js too).
 */
 const fs = require('fs');
 const path = require('path');
@@ -19,13 +26,12 @@ function val(name, def){ const i=argv.indexOf(name); return i>=0? (argv[i+1]||''
 const outPath = val('--out', 'export/display.csv');
 const allSenses = flag('--allSenses');
 const withMeta = flag('--withMeta');
+const withTrad = flag('--withTrad');
+const levelArg = val('--level', '');
 
 function chooseSense(entry){
   const list = entry.en || [];
-  if(!list.length) return '';
-  let best = list[0];
-  for(const s of list){ if(s && s.length < best.length) best = s; }
-  return best;
+  return list.length ? list[0] : '';
 }
 
 function csvEscape(s){
@@ -37,25 +43,75 @@ function writeRow(cols){ return cols.map(csvEscape).join(','); }
 
 const base = path.join(__dirname, '..', 'extension', 'data');
 const idx = JSON.parse(fs.readFileSync(path.join(base, 'index.json'), 'utf8'));
-const rows = [];
-// header
-const header = withMeta ? ['zh','en','pinyin','pos','proper','tag'] : ['zh','en'];
-rows.push(writeRow(header));
+const binary = Object.values(idx.groups).some(g => g.file.endsWith('.bin'));
 
+let lib = null;
+if(levelArg || binary){
+  try{
+    lib = require(path.join(__dirname, '..', 'dist', 'mixen.js'));
+  }catch(e){
+    console.error(`${levelArg ? '--level' : 'Binary chunks'} need dist/mixen.js; run \`npm run build:ts\` first.`);
+    process.exit(1);
+  }
+}
+if(levelArg){
+  if(levelArg !== 'each' && !lib.LEVELS.includes(levelArg)){
+    console.error(`--level must be one of ${lib.LEVELS.join(', ')} or each`);
+    process.exit(1);
+  }
+}
+
+// Same order as the JSON chunks (length desc, then code unit), so both formats export identically
+function trieEntries(file){
+  const list = Array.from(lib.readTrieFile(file).entries());
+  return list.sort((a,b)=> b[0].length - a[0].length || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+}
+
+const freqTotal = idx.freqTotal || 0;
+const entries = [];
 for(const gid of Object.keys(idx.groups)){
   const file = path.join(base, 'chunks', idx.groups[gid].file);
-  const chunk = JSON.parse(fs.readFileSync(file, 'utf8'));
-  for(const [zh, entry] of chunk.entries){
-    const ens = (entry.en||[]).slice();
-    if(!ens.length) continue;
-    const picks = allSenses ? ens : [chooseSense(entry)].filter(Boolean);
+  const chunkEntries = file.endsWith('.bin') ? trieEntries(file) : JSON.parse(fs.readFileSync(file, 'utf8')).entries;
+  for(const [zh, entry] of chunkEntries){
+    if(entry.simp && !withTrad) continue;
+    if(!(entry.en||[]).length) continue;
+    entries.push([zh, entry]);
+  }
+}
+
+function exportRows(level){
+  let list = entries.map(([zh, entry])=> ({ zh, entry, weight: level ? lib.levelWeight(entry, level, freqTotal) : 1 }));
+  if(level){
+    list = list.filter(x => x.weight > 0);
+    list.sort((a,b)=> b.weight - a.weight); // stable: dictionary order within a weight
+  }
+  const rows = [];
+  // header
+  const header = withMeta ? ['zh','en','pinyin','pos','proper','tag'] : ['zh','en'];
+  if(level) header.push('weight');
+  rows.push(writeRow(header));
+  for(const { zh, entry, weight } of list){
+    const picks = allSenses ? entry.en.slice() : [chooseSense(entry)].filter(Boolean);
     for(const en of picks){
-      if(!withMeta) rows.push(writeRow([zh, en]));
-      else rows.push(writeRow([zh, en, entry.py||'', entry.pos||'', entry.proper? 'true':'', entry.tag||'']));
+      const cols = withMeta ? [zh, en, entry.py||'', entry.pos||'', entry.proper? 'true':'', entry.tag||''] : [zh, en];
+      if(level) cols.push(weight);
+      rows.push(writeRow(cols));
     }
   }
+  return rows;
 }
 
-fs.mkdirSync(path.dirname(outPath), { recursive: true });
-fs.writeFileSync(outPath, rows.join('\n'), 'utf8');
-console.log(`Wrote ${rows.length-1} rows to ${outPath}`);
+function writeOut(file, rows){
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, rows.join('\n'), 'utf8');
+  console.log(`Wrote ${rows.length-1} rows to ${file}`);
+}
+
+if(levelArg === 'each'){
+  const ext = path.extname(outPath);
+  for(const level of lib.LEVELS.filter(l => l !== 'all')){
+    writeOut(outPath.slice(0, outPath.length - ext.length) + '.' + level + (ext || '.csv'), exportRows(level));
+  }
+} else {
+  writeOut(outPath, exportRows(levelArg && levelArg !== 'all' ? levelArg : ''));
+}
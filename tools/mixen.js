@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+/*
+Headless MixEn: replace a fraction of the Chinese words in a text, Markdown or HTML file with
+English from the built dictionary. Uses dist/mixen.js (npm run build:ts) and extension/data.
+
+Usage:
+  mixen [input|-] [--out file] [--format text|md|html] [--data dir] [--ratio 0.15] [--seed s]
+        [--allPos] [--level all|beginner|intermediate|academic] [--script simp|trad|both] [--json]
+    input     : file to read; '-' or omitted reads stdin. Format is guessed from the extension
+    --seed    : make the choice of replaced words reproducible
+    --allPos  : replace any part of speech (default: nouns only)
+    --level   : difficulty filter and weighting, as in the extension options (default: all)
+    --script  : headwords to match: simplified, traditional or both (default: both)
+    --json    : print {text, spans:[{original,en,py,reason,srcStart,srcEnd,start,end}]}
+*/
+const fs = require('fs');
+const path = require('path');
+
+const argv = process.argv.slice(2);
+function flag(name){ return argv.includes(name); }
+function val(name, def){ const i=argv.indexOf(name); return i>=0? (argv[i+1]||''): def; }
+
+const VALUE_FLAGS = ['--out','--format','--data','--ratio','--seed','--script','--level'];
+const positional = [];
+for(let i=0;i<argv.length;i++){
+  if(VALUE_FLAGS.includes(argv[i])){ i++; continue; }
+  if(!argv[i].startsWith('--')) positional.push(argv[i]);
+}
+const input = positional[0] || '-';
+
+let lib;
+try{
+  lib = require(path.join(__dirname, '..', 'dist', 'mixen.js'));
+}catch(e){
+  console.error('dist/mixen.js not found; run `npm run build:ts` first.');
+  process.exit(1);
+}
+
+const dataDir = val('--data', path.join(__dirname, '..', 'extension', 'data'));
+if(!fs.existsSync(path.join(dataDir, 'index.json'))){
+  console.error(`No dictionary at ${dataDir}; run \`npm run build:dict\` first or pass --data.`);
+  process.exit(1);
+}
+
+const ratio = parseFloat(val('--ratio', '0.15'));
+if(!(ratio >= 0 && ratio <= 1)){
+  console.error('--ratio must be between 0 and 1');
+  process.exit(1);
+}
+const format = val('--format', input === '-' ? 'text' : lib.formatForFile(input));
+if(!['text','md','html'].includes(format)){
+  console.error('--format must be text, md or html');
+  process.exit(1);
+}
+
+const level = val('--level', 'all');
+if(!lib.LEVELS.includes(level)){
+  console.error(`--level must be one of ${lib.LEVELS.join(', ')}`);
+  process.exit(1);
+}
+
+const script = val('--script', 'both');
+if(!['simp','trad','both'].includes(script)){
+  console.error('--script must be simp, trad or both');
+  process.exit(1);
+}
+
+const text = fs.readFileSync(input === '-' ? 0 : input, 'utf8');
+const dict = lib.loadDict(dataDir);
+const res = lib.mix(text, dict, {
+  format,
+  ratio,
+  onlyNouns: !flag('--allPos'),
+  level,
+  seed: val('--seed', undefined),
+  script
+});
+
+const output = flag('--json') ? JSON.stringify(res, null, 2) + '\n' : res.text;
+const outPath = val('--out', '');
+if(outPath){
+  fs.mkdirSync(path.dirname(path.resolve(outPath)), { recursive: true });
+  fs.writeFileSync(outPath, output, 'utf8');
+  console.error(`Replaced ${res.spans.length} words; wrote ${outPath}`);
+} else {
+  process.stdout.write(output);
+}
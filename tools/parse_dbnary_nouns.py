@@ -1,9 +1,8 @@
 #!/usr/bin/env python3
 import sys, os, bz2, re, json
 
-def load_nouns_bz2(path):
-    nouns=set()
-    noun_cf=set()  # canonicalForm ids that are noun entries
+def blocks_bz2(path):
+    # Turtle statements, one block of lines per subject (ends with '.')
     with bz2.open(path, 'rt', encoding='utf-8', errors='ignore') as f:
         buf=[]
         for line in f:
@@ -12,29 +11,83 @@ def load_nouns_bz2(path):
                 continue
             buf.append(t)
             if t.strip().endswith('.'):
-                block='\n'.join(buf)
+                yield '\n'.join(buf)
                 buf=[]
-                if 'ontolex:LexicalEntry' in block and 'lexinfo:partOfSpeech' in block and 'lexinfo:noun' in block and 'ontolex:canonicalForm' in block:
-                    m=re.search(r'ontolex:canonicalForm\s+([\w:_.-]+)', block)
+
+def load_nouns_bz2(path):
+    nouns=set()
+    noun_cf=set()  # canonicalForm ids that are noun entries
+    for block in blocks_bz2(path):
+        if 'ontolex:LexicalEntry' in block and 'lexinfo:partOfSpeech' in block and 'lexinfo:noun' in block and 'ontolex:canonicalForm' in block:
+            m=re.search(r'ontolex:canonicalForm\s+([\w:_.-]+)', block)
+            if m:
+                noun_cf.add(m.group(1))
+        else:
+            # check if this block is a canonical form with writtenRep
+            mcf=re.match(r'^(\S+)\s', block)
+            if mcf:
+                subj=mcf.group(1)
+                if subj in noun_cf and 'ontolex:writtenRep' in block and '@zh' in block:
+                    m=re.search(r'ontolex:writtenRep\s+\"([^\"]+)\"@zh', block)
                     if m:
-                        noun_cf.add(m.group(1))
-                else:
-                    # check if this block is a canonical form with writtenRep
-                    mcf=re.match(r'^(\S+)\s', block)
-                    if mcf:
-                        subj=mcf.group(1)
-                        if subj in noun_cf and 'ontolex:writtenRep' in block and '@zh' in block:
-                            m=re.search(r'ontolex:writtenRep\s+\"([^\"]+)\"@zh', block)
-                            if m:
-                                nouns.add(m.group(1))
+                        nouns.add(m.group(1))
     return sorted(nouns)
 
+def load_translations_bz2(path, lang3):
+    # Chinese entries and their translations into one language (lexvo code, e.g. 'fra'). Entries,
+    # forms and translations come in any order, so they are joined at the end.
+    entries={}  # entry id -> {'pos', 'cf'}
+    forms={}    # canonicalForm id -> (writtenRep, pinyin)
+    trans={}    # entry id -> [written forms]
+    target='lexvo:'+lang3
+    for block in blocks_bz2(path):
+        mcf=re.match(r'^(\S+)\s', block)
+        if not mcf:
+            continue
+        subj=mcf.group(1)
+        if 'dbnary:Translation' in block:
+            if not re.search(r'dbnary:targetLanguage\s+'+re.escape(target)+r'\b', block):
+                continue
+            m=re.search(r'dbnary:isTranslationOf\s+([\w:_.-]+)', block)
+            if not m:
+                continue
+            of=m.group(1)
+            # a translation of one sense (__ws_1_word__Noun__1) belongs to its entry
+            of=re.sub(r'^(\w*:)__ws_\d+_', r'\1', of)
+            for w in re.findall(r'dbnary:writtenForm\s+"([^"]+)"@[\w-]+', block):
+                lst=trans.setdefault(of, [])
+                if w not in lst:
+                    lst.append(w)
+        elif 'ontolex:LexicalEntry' in block:
+            m=re.search(r'ontolex:canonicalForm\s+([\w:_.-]+)', block)
+            if not m:
+                continue
+            p=re.search(r'lexinfo:partOfSpeech\s+lexinfo:(\w+)', block)
+            entries[subj]={'pos': p.group(1) if p else '', 'cf': m.group(1)}
+        elif 'ontolex:writtenRep' in block:
+            m=re.search(r'ontolex:writtenRep\s+"([^"]+)"@zh', block)
+            if m:
+                py=re.search(r'ontolex:phoneticRep\s+"([^"]+)"@zh-Latn', block)
+                forms[subj]=(m.group(1), py.group(1) if py else '')
+    out=[]
+    for eid in sorted(trans):
+        e=entries.get(eid)
+        if not e or e['cf'] not in forms:
+            continue
+        w, py=forms[e['cf']]
+        out.append({'w': w, 'pos': e['pos'], 'py': py, 'tr': trans[eid]})
+    return out
+
 def main():
-    if len(sys.argv)<2:
+    args=sys.argv[1:]
+    if len(args)==3 and args[0]=='--translations':
+        json.dump(load_translations_bz2(args[2], args[1]), sys.stdout, ensure_ascii=False)
+        return
+    if len(args)!=1:
         print('Usage: parse_dbnary_nouns.py zh_dbnary_ontolex.ttl.bz2', file=sys.stderr)
+        print('       parse_dbnary_nouns.py --translations fra zh_dbnary_ontolex.ttl.bz2', file=sys.stderr)
         sys.exit(2)
-    path=sys.argv[1]
-    res=load_nouns_bz2(path)
+    res=load_nouns_bz2(args[0])
     json.dump(res, sys.stdout, ensure_ascii=False)
 
 if __name__=='__main__':
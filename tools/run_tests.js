@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+/*
+Unit tests for the modules under src/ that don't need a browser.
+Bundles every test/*.test.ts with esbuild (like build_ts.js does for dist/mixen.js) into
+dist/test/ and runs them with node's built-in test runner.
+
+Usage:
+  node tools/run_tests.js [name ...]   (npm test)
+    name : only the test files whose name contains one of these, e.g. `core settings`
+*/
+const esbuild = require('esbuild');
+const fs = require('fs');
+const path = require('path');
+const { spawnSync } = require('child_process');
+
+const root = path.join(__dirname, '..');
+const testDir = path.join(root, 'test');
+const outDir = path.join(root, 'dist', 'test');
+const only = process.argv.slice(2);
+
+const files = fs.readdirSync(testDir)
+  .filter(f => f.endsWith('.test.ts'))
+  .filter(f => !only.length || only.some(n => f.includes(n)))
+  .sort();
+if(!files.length){ console.error('No test files match'); process.exit(1); }
+
+fs.rmSync(outDir, { recursive: true, force: true });
+esbuild.build({
+  entryPoints: files.map(f => path.join(testDir, f)),
+  outdir: outDir,
+  outExtension: { '.js': '.cjs' },
+  bundle: true,
+  platform: 'node',
+  format: 'cjs',
+  target: ['node18'],
+  logLevel: 'warning'
+}).then(()=>{
+  const outFiles = files.map(f => path.join(outDir, f.replace(/\.ts$/, '.cjs')));
+  const r = spawnSync(process.execPath, ['--test', ...outFiles], { stdio: 'inherit' });
+  process.exit(r.status === null ? 1 : r.status);
+}).catch((e)=>{ console.error(e); process.exit(1); });
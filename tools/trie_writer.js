@@ -0,0 +1,105 @@
+/*
+Writes the binary trie chunk format ("MXT1") described in src/trie.ts, which also has the reader.
+Used by build_dict.js (--format bin) and bench_dict.js.
+
+  const { encodeTrie } = require('./trie_writer');
+  const buf = encodeTrie(entries, maxLen); // entries: [[word, {en, py, tag, f, pos, cx, trad, simp, proper, ph, pht, lit, fig}], ...]
+*/
+const TRIE_MAGIC = 0x3154584d; // "MXT1" as a little-endian u32
+const F_PY = 1, F_TAG = 2, F_POS = 4, F_TRAD = 8, F_SIMP = 16, F_PROPER = 32, F_CX = 64, F_PH = 128;
+
+function encodeTrie(entries, maxLen){
+  // Build the trie in memory: node = { kids: Map(code -> node index), value: entry|null }
+  const nodes = [{ kids: new Map(), value: null }];
+  for(const [word, entry] of entries){
+    let n = 0;
+    for(let i = 0; i < word.length; i++){
+      const code = word.charCodeAt(i);
+      let next = nodes[n].kids.get(code);
+      if(next === undefined){
+        next = nodes.length;
+        nodes.push({ kids: new Map(), value: null });
+        nodes[n].kids.set(code, next);
+      }
+      n = next;
+    }
+    nodes[n].value = entry;
+  }
+
+  // String table, deduplicated, in first-use order
+  const strings = [];
+  const stringIds = new Map();
+  function sid(s){
+    s = String(s);
+    let id = stringIds.get(s);
+    if(id === undefined){ id = strings.length; strings.push(s); stringIds.set(s, id); }
+    return id;
+  }
+
+  const nodeWords = new Uint32Array(nodes.length * 3);
+  const keys = [];
+  const kids = [];
+  const values = [];
+  for(let n = 0; n < nodes.length; n++){
+    const codes = Array.from(nodes[n].kids.keys()).sort((a,b)=> a - b);
+    nodeWords[n * 3] = keys.length;
+    nodeWords[n * 3 + 1] = codes.length;
+    for(const c of codes){ keys.push(c); kids.push(nodes[n].kids.get(c)); }
+    const e = nodes[n].value;
+    if(!e) continue;
+    nodeWords[n * 3 + 2] = values.length + 1;
+    const en = e.en || [];
+    if(en.length > 255) throw new Error('too many senses');
+    const hasCx = Array.isArray(e.cx) && e.cx.some(Boolean);
+    const ph = Array.isArray(e.ph) ? e.ph : [];
+    let mask = en.length << 8;
+    if(e.py) mask |= F_PY;
+    if(e.tag) mask |= F_TAG;
+    if(e.pos) mask |= F_POS;
+    if(e.trad) mask |= F_TRAD;
+    if(e.simp) mask |= F_SIMP;
+    if(e.proper) mask |= F_PROPER;
+    if(hasCx) mask |= F_CX;
+    if(ph.length) mask |= F_PH;
+    values.push(e.f || 0, mask);
+    if(e.py) values.push(sid(e.py));
+    if(e.tag) values.push(sid(e.tag));
+    if(e.pos) values.push(sid(e.pos));
+    if(e.trad) values.push(sid(e.trad));
+    if(e.simp) values.push(sid(e.simp));
+    for(const s of en) values.push(sid(s));
+    if(hasCx) for(let k = 0; k < en.length; k++) values.push(sid(e.cx[k] || ''));
+    if(ph.length){
+      values.push(ph.length);
+      for(let k = 0; k < ph.length; k++) values.push(sid(ph[k]), sid((e.pht && e.pht[k]) || 'phrase'));
+      values.push(sid(e.lit || ''), sid(e.fig || ''));
+    }
+  }
+
+  const strBufs = strings.map(s => Buffer.from(s, 'utf8'));
+  const strOffs = new Uint32Array(strings.length + 1);
+  for(let i = 0; i < strBufs.length; i++) strOffs[i + 1] = strOffs[i] + strBufs[i].length;
+  const stringBytes = strOffs[strings.length];
+
+  const header = new Uint32Array([TRIE_MAGIC, nodes.length, keys.length, values.length, strings.length, stringBytes, maxLen, entries.length]);
+  const pad = (4 - (stringBytes % 4)) % 4;
+  return Buffer.concat([
+    u32(header), u32(nodeWords), u32(Uint32Array.from(keys)), u32(Uint32Array.from(kids)),
+    u32(Uint32Array.from(values)), u32(strOffs), ...strBufs, Buffer.alloc(pad)
+  ]);
+}
+
+// Typed arrays are written in little-endian byte order regardless of the host
+function u32(arr){
+  const b = Buffer.alloc(arr.length * 4);
+  for(let i = 0; i < arr.length; i++) b.writeUInt32LE(arr[i], i * 4);
+  return b;
+}
+
+// Entry count from the header, without decoding the trie (for --verify)
+function trieEntryCount(buf){
+  if(buf.length < 32 || buf.readUInt32LE(0) !== TRIE_MAGIC) throw new Error('not a MixEn trie chunk');
+  return buf.readUInt32LE(28);
+}
+
+module.exports = { encodeTrie, trieEntryCount, TRIE_MAGIC };